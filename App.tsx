@@ -1,9 +1,52 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { GameMode, KeyStats, LessonConfig, Theme, TypingSessionStats } from './types';
-import TypingArea from './components/TypingArea';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AppSettings, BookMeta, CoachDrill, CoachReport, ContentProvider, DailyResult, CodeLanguage, CodeSnippet, ContentProviderId, FingerStats, GameMode, KeystrokeEvent, KeyStats, LanguageId, LessonConfig, LessonProgress, NgramStats, ErrorPolicy, PlayerProfile, RaceResult, RacerProfile, RoomState, ServerMessage, SessionMetrics, SessionRecord, SessionReplay, ShiftStats, Theme, TimedTestConfig, WordCard } from './types';
+import TypingArea, { OpponentCaret } from './components/TypingArea';
 import VirtualKeyboard from './components/VirtualKeyboard';
 import RainGame from './components/RainGame';
-import { generateLessonContent, generateTypingAdvice } from './services/geminiService';
+import AnalyticsDashboard, { DataExportKind } from './components/AnalyticsDashboard';
+import LessonPicker from './components/LessonPicker';
+import ReplayViewer from './components/ReplayViewer';
+import TimedTestPicker from './components/TimedTestPicker';
+import TimedResults from './components/TimedResults';
+import CodePicker from './components/CodePicker';
+import RaceTrack, { RaceLane } from './components/RaceTrack';
+import RacerSetup from './components/RacerSetup';
+import BookShelf from './components/BookShelf';
+import MultiplayerLobby from './components/MultiplayerLobby';
+import DailyChallenge from './components/DailyChallenge';
+import BadgeWall from './components/BadgeWall';
+import ReviewDeck from './components/ReviewDeck';
+import CoachPanel from './components/CoachPanel';
+import Toasts, { Toast } from './components/Toasts';
+import TextInputCapture, { isCaptureTarget } from './components/TextInputCapture';
+import { getProvider, isProviderAvailable, loadProviderId, PROVIDERS, saveProviderId } from './services/contentProvider';
+import { configureAiRequests } from './services/geminiService';
+import { localProvider } from './services/localContentService';
+import { appendSession, clearHistory, loadHistory, replaceHistory, saveLessonProgress, saveTypingStats, TypingStats } from './services/storageService';
+import { FlowStroke, recordNgrams, weakNgrams } from './services/ngramService';
+import { buildTestText, configKey, extendStream, personalBestFor } from './services/timedTest';
+import { computeMetrics, finalInputFrom, logDuration, wpmFromChars } from './services/metrics';
+import { RainSummary } from './services/rainEngine';
+import { completedWords, COUNTDOWN_SECONDS, countWords, getRacerProfile, planRace, wordsDoneAt } from './services/racerService';
+import { createRng } from './services/random';
+import { buildCoachInput, buildCoachReport } from './services/coach';
+import { analyzeWords, buildReviewText, dueCards, loadWordCards, saveWordCards, updateCards } from './services/wordReview';
+import { levelInfo, loadProfile, ProgressEvent, recordProgress, saveProfile } from './services/achievements';
+import { buildDailyChallenge, currentStreak, dateKey, DailyChallenge as DailyChallengeData, gradeSegments, loadDailyResults, recordDailyResult, saveDailyResults } from './services/dailyChallenge';
+import { buildArchive, downloadFile, exportFileName, keyStatsToCsv, mergeDailyResults, mergeHistory, mergeProfile, mergeWordCards, newSessions, readArchiveFile, sessionsToCsv } from './services/dataTransfer';
+import { connectToRaceServer, defaultServerUrl, RaceConnection } from './services/multiplayerClient';
+import { addBook, deleteBook, listBooks, loadBookChunks, setBookmark } from './services/bookService';
+import { indentationAt, normalizeCode, randomSnippet } from './services/codeSnippets';
+import { highlightCode } from './services/syntaxHighlight';
+import { cleanWords, normalizeText, TEXT_RULES, TextSource, validateText } from './services/textPipeline';
+import { acceptsKey, deleteWord, ERROR_POLICIES, WORD_BACKSPACE } from './services/inputPolicy';
+import { clearReplays, findPersonalBestReplay, importReplay, inputAt, loadReplay, saveReplay, timeToReach } from './services/replayService';
+import { AI_REQUESTS_PER_MINUTE, loadSettings, saveSettings } from './services/settingsService';
+import { charForCode, getLayout, LAYOUTS, locateChar } from './services/keyboardLayouts';
+import { getLanguagePack, LANGUAGE_PACKS } from './services/languagePacks';
+import { dropLastGrapheme, graphemeCount, graphemeOffsets, isSingleGrapheme, normalizeTyped, splitGraphemes } from './services/graphemes';
+import { fingerForChar, handOf, recordFingerStroke, recordShiftUse } from './services/fingerMap';
+import { buildLesson, getNextLessonId, isLessonUnlocked, meetsCriteria, mergeProgress } from './services/curriculum';
 import { 
   ChartBarIcon, 
   ComputerDesktopIcon, 
@@ -11,10 +54,27 @@ import {
   BoltIcon, 
   SunIcon, 
   MoonIcon, 
-  ArrowPathIcon 
+  ArrowPathIcon,
+  UserGroupIcon,
+  ClockIcon,
+  CodeBracketIcon,
+  FlagIcon,
+  BookOpenIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  WifiIcon,
+  CalendarDaysIcon,
+  TrophyIcon,
+  AcademicCapIcon,
+  ExclamationTriangleIcon,
+  XMarkIcon
 } from '@heroicons/react/24/solid';
 
 const DEFAULT_TEXT = "Welcome to TypeNeon. Start typing to begin your journey. Speed and accuracy will follow practice.";
+// Tries at getting a generated passage past validation before offline text is used
+const GENERATION_ATTEMPTS = 2;
+// Quiet time after the last keystroke before the cumulative stats are written
+const STATS_SAVE_DELAY_MS = 1500;
 
 const App = () => {
   // --- State ---
@@ -24,31 +84,159 @@ const App = () => {
   const [userInput, setUserInput] = useState<string>('');
   const [startTime, setStartTime] = useState<number | null>(null);
   const [isFinished, setIsFinished] = useState<boolean>(false);
-  const [keyStats, setKeyStats] = useState<Record<string, KeyStats>>({});
+  const [keyStats, setKeyStats] = useState<Record<string, KeyStats>>(() => loadHistory().keyStats);
+  const [sessions, setSessions] = useState<SessionRecord[]>(() => loadHistory().sessions);
+  const [fingerStats, setFingerStats] = useState<Record<string, FingerStats>>(() => loadHistory().fingerStats);
+  const [shiftStats, setShiftStats] = useState<ShiftStats>(() => loadHistory().shiftStats);
+  const [ngramStats, setNgramStats] = useState<Record<string, NgramStats>>(() => loadHistory().ngramStats);
   const [loading, setLoading] = useState<boolean>(false);
-  const [aiAdvice, setAiAdvice] = useState<string>('');
-  const [lastGameScore, setLastGameScore] = useState<number>(0);
+  // Problem shown above the main view: a failed AI request, or a file that could not be read
+  const [errorBanner, setErrorBanner] = useState<string | null>(null);
+  const [coachReport, setCoachReport] = useState<CoachReport | null>(null);
+  const [rainSummary, setRainSummary] = useState<RainSummary | null>(null);
+  const [providerId, setProviderId] = useState<ContentProviderId>(loadProviderId);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [lessonProgress, setLessonProgress] = useState<Record<string, LessonProgress>>(() => loadHistory().lessonProgress);
+  const [activeLesson, setActiveLesson] = useState<LessonConfig | null>(null);
+  const [lessonPassed, setLessonPassed] = useState<boolean | null>(null);
+  const [replay, setReplay] = useState<SessionReplay | null>(null);
+  const [lastSessionId, setLastSessionId] = useState<string | null>(null);
+  const [ghost, setGhost] = useState<SessionReplay | null>(null);
+  const [clock, setClock] = useState<number>(Date.now());
+  const [codeSnippet, setCodeSnippet] = useState<CodeSnippet | null>(null);
+  const [finalMetrics, setFinalMetrics] = useState<SessionMetrics | null>(null);
+  const [timedBest, setTimedBest] = useState<number | null>(null);
+  // Typing Racer: each opponent's per-word split times, the start countdown and the result
+  const [racePlans, setRacePlans] = useState<{ profile: RacerProfile; splits: number[] }[]>([]);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [racePlacement, setRacePlacement] = useState<number | null>(null);
+  const [books, setBooks] = useState<BookMeta[]>(() => listBooks());
+  const [openBook, setOpenBook] = useState<{ meta: BookMeta; chunks: string[] } | null>(null);
+  // Daily challenge: today's seeded content, which part is being played and past results
+  const [dailyChallenge, setDailyChallenge] = useState<DailyChallengeData | null>(null);
+  const [dailyView, setDailyView] = useState<'calendar' | 'typing' | 'rain'>('calendar');
+  const [dailyResults, setDailyResults] = useState<Record<string, DailyResult>>(loadDailyResults);
+  // Multiplayer: the room as the server last described it and the latest race results
+  const [room, setRoom] = useState<RoomState | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [raceResults, setRaceResults] = useState<RaceResult[] | null>(null);
+  const [connecting, setConnecting] = useState<boolean>(false);
+  // Spaced-repetition deck of problem words, and whether a review passage is being typed
+  const [wordCards, setWordCards] = useState<Record<string, WordCard>>(loadWordCards);
+  const [reviewing, setReviewing] = useState<boolean>(false);
+  const [profile, setProfile] = useState<PlayerProfile>(loadProfile);
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  // Caret position of the last key the error policy turned away
+  const [rejectedIndex, setRejectedIndex] = useState<number | null>(null);
+  // Text an IME or dead key is still composing, previewed at the caret
+  const [composition, setComposition] = useState<string>('');
+
+  // Keystroke log for the running session; a ref so finishSession always sees the final key
+  const keystrokesRef = useRef<KeystrokeEvent[]>([]);
+  // Session a pending AI coach report belongs to, so a late answer cannot land on the next one
+  const coachSessionRef = useRef<string | null>(null);
+  // Physical Shift keys currently held, to check the opposite-hand rule
+  const heldShiftsRef = useRef<Set<string>>(new Set());
+  // Last strokes of the current uninterrupted run, for bigram/trigram timing
+  const flowRef = useRef<FlowStroke[]>([]);
+  const connectionRef = useRef<RaceConnection | null>(null);
+  const nextToastIdRef = useRef(1);
+
+  const provider = getProvider(providerId);
+  const layout = getLayout(settings.layoutId);
+  const timeLimitMs = mode === GameMode.TIMED && settings.timedTest.kind === 'time' ? settings.timedTest.value * 1000 : null;
+  const blind = settings.blindMode && !isFinished;
+  const playerLevel = levelInfo(profile.xp);
+  const dueWords = useMemo(() => dueCards(wordCards), [wordCards, mode]);
+  const textGraphemes = useMemo(() => splitGraphemes(text), [text]);
+  // Whether typed characters land in the passage right now
+  const typingActive = !(mode === GameMode.GAME_RAIN || mode === GameMode.ANALYTICS || mode === GameMode.PROFILE || replay || isFinished || loading)
+    && !(mode === GameMode.DAILY && dailyView !== 'typing')
+    && !(mode === GameMode.REVIEW && !reviewing)
+    // Races start on the countdown, not on the first key
+    && !((mode === GameMode.GAME_RACER || mode === GameMode.MULTIPLAYER) && !startTime)
+    && !(mode === GameMode.BOOK && !openBook);
+  const highlight = useMemo(
+    () => (mode === GameMode.CODE && codeSnippet ? highlightCode(text, codeSnippet.language) : null),
+    [mode, codeSnippet, text]
+  );
   
   // --- Derived Stats ---
-  const currentStats = useMemo<TypingSessionStats>(() => {
-    const charsTyped = userInput.length;
-    const errors = userInput.split('').reduce((acc, char, idx) => {
-      return char !== text[idx] ? acc + 1 : acc;
-    }, 0);
-    
-    let timeElapsed = 0;
-    if (startTime) {
-      timeElapsed = (isFinished ? Date.now() : Date.now()) - startTime; // Rough estimate for live view
-      if(isFinished) timeElapsed = Date.now() - startTime; // Fix later with actual end timestamp
-    }
-    
-    // Avoid division by zero
-    const minutes = Math.max((Date.now() - (startTime || Date.now())) / 60000, 0.001);
-    const wpm = Math.round((charsTyped / 5) / minutes);
-    const accuracy = charsTyped > 0 ? Math.round(((charsTyped - errors) / charsTyped) * 100) : 100;
+  // Live numbers come from the keystroke log and the ticking clock, so WPM falls during
+  // pauses; once finished the header shows exactly what was recorded
+  const currentStats = useMemo<SessionMetrics>(() => {
+    if (finalMetrics) return finalMetrics;
+    const elapsed = startTime ? Math.max(0, clock - startTime) : 0;
+    return computeMetrics(keystrokesRef.current, text, elapsed);
+  }, [userInput, clock, startTime, text, finalMetrics]);
+
+  const personalBest = useMemo(() => findPersonalBestReplay(sessions), [sessions]);
+
+  // Ghost position and lead: positive delta means the player is ahead of the recorded run
+  const ghostElapsed = startTime ? Math.max(0, clock - startTime) : 0;
+  const ghostIndex = ghost && startTime ? inputAt(ghost.events, ghostElapsed).length : ghost ? 0 : null;
+  const ghostDelta = useMemo(() => {
+    if (!ghost || !startTime) return null;
+    const ghostTime = timeToReach(ghost.events, userInput.length);
+    return ghostTime === null ? null : (ghostTime - ghostElapsed) / 1000;
+  }, [ghost, startTime, userInput, ghostElapsed]);
 
-    return { wpm, accuracy, timeElapsed: minutes * 60, mistakes: errors, charsTyped };
-  }, [userInput, startTime, isFinished, text]);
+  // Opponents finishing before the player's time place ahead; once the player is done,
+  // everyone's place is known from their plans
+  const raceLanes = useMemo<RaceLane[]>(() => {
+    if (mode !== GameMode.GAME_RACER || racePlans.length === 0) return [];
+    const totalWords = Math.max(1, countWords(text));
+    const elapsed = startTime ? Math.max(0, clock - startTime) : 0;
+    const playerTime = isFinished && finalMetrics ? finalMetrics.durationMs : null;
+    const finishTimes = [...racePlans.map(p => p.splits[p.splits.length - 1]), ...(playerTime !== null ? [playerTime] : [])];
+    const placeOf = (t: number) => 1 + finishTimes.filter(other => other < t).length;
+
+    return [
+      {
+        id: 'player',
+        name: 'You',
+        color: '#ffffff',
+        progress: completedWords(text, userInput) / totalWords,
+        place: playerTime !== null ? placeOf(playerTime) : null,
+        isPlayer: true,
+      },
+      ...racePlans.map(({ profile, splits }, i) => {
+        const finish = splits[splits.length - 1];
+        return {
+          id: `${profile.id}-${i}`,
+          name: profile.name,
+          color: profile.color,
+          progress: wordsDoneAt(splits, elapsed) / totalWords,
+          place: finish <= elapsed || playerTime !== null ? placeOf(finish) : null,
+        };
+      }),
+    ];
+  }, [mode, racePlans, text, startTime, clock, isFinished, finalMetrics, userInput]);
+
+  // Multiplayer lanes and carets follow the server's view; the player's own car uses local input
+  const roomLanes = useMemo<RaceLane[]>(() => {
+    if (mode !== GameMode.MULTIPLAYER || !room || room.status === 'lobby') return [];
+    const length = Math.max(1, text.length);
+    return room.players.map(p => ({
+      id: p.id,
+      name: p.id === playerId ? 'You' : p.name,
+      color: p.color,
+      progress: (p.id === playerId ? userInput.length : p.position) / length,
+      place: raceResults?.find(r => r.id === p.id && r.timeMs !== null)?.place ?? null,
+      isPlayer: p.id === playerId,
+    }));
+  }, [mode, room, playerId, text, userInput, raceResults]);
+
+  const myRaceResult = raceResults?.find(r => r.id === playerId) ?? null;
+
+  const opponentCarets = useMemo<OpponentCaret[]>(
+    () => (mode === GameMode.MULTIPLAYER && room?.status === 'racing'
+      ? room.players
+          .filter(p => p.id !== playerId)
+          .map(p => ({ id: p.id, index: p.position, color: p.color, label: `${p.name} ${p.wpm}` }))
+      : []),
+    [mode, room, playerId]
+  );
 
   // --- Effects ---
   useEffect(() => {
@@ -59,27 +247,353 @@ const App = () => {
     }
   }, [theme]);
 
+  // Tick during a session so live stats, the ghost caret and the countdown move between keystrokes
+  useEffect(() => {
+    if (!startTime || isFinished) return;
+    const interval = window.setInterval(() => setClock(Date.now()), ghost || timeLimitMs || mode === GameMode.GAME_RACER ? 100 : 250);
+    return () => window.clearInterval(interval);
+  }, [ghost, timeLimitMs, mode, startTime, isFinished]);
+
+  // 3, 2, 1, GO: the race clock starts on GO rather than on the first keystroke
+  useEffect(() => {
+    // Multiplayer countdowns are driven by the server
+    if (countdown === null || mode === GameMode.MULTIPLAYER) return;
+    if (countdown === 0) {
+      const now = Date.now();
+      setStartTime(now);
+      setClock(now);
+    }
+    const timeout = window.setTimeout(() => setCountdown(countdown > 0 ? countdown - 1 : null), countdown > 0 ? 1000 : 600);
+    return () => window.clearTimeout(timeout);
+  }, [countdown]);
+
+  // Report the caret to the race server as it moves
+  useEffect(() => {
+    if (mode === GameMode.MULTIPLAYER && startTime && !isFinished) connectionRef.current?.progress(userInput.length);
+  }, [userInput]);
+
+  useEffect(() => () => connectionRef.current?.close(), []);
+
+  useEffect(() => {
+    if (timeLimitMs && startTime && !isFinished && clock - startTime >= timeLimitMs) {
+      finishSession(timeLimitMs);
+    }
+  }, [clock]);
+
+  // Persist the cumulative heatmap so it survives reloads. The stats change on every keystroke,
+  // so they are written once typing pauses, and whatever is pending when the page closes.
+  const pendingStatsRef = useRef<TypingStats | null>(null);
+  const flushStats = useCallback(() => {
+    if (!pendingStatsRef.current) return;
+    saveTypingStats(pendingStatsRef.current);
+    pendingStatsRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    pendingStatsRef.current = { keyStats, fingerStats, shiftStats, ngramStats };
+    const timeout = window.setTimeout(flushStats, STATS_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timeout);
+  }, [keyStats, fingerStats, shiftStats, ngramStats]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flushStats);
+    return () => {
+      window.removeEventListener('pagehide', flushStats);
+      flushStats();
+    };
+  }, []);
+
+  useEffect(() => {
+    configureAiRequests({ requestsPerMinute: settings.aiRequestsPerMinute });
+  }, [settings.aiRequestsPerMinute]);
+
+  useEffect(() => {
+    const track = (e: KeyboardEvent) => {
+      if (e.key !== 'Shift') return;
+      if (e.type === 'keydown') heldShiftsRef.current.add(e.code);
+      else heldShiftsRef.current.delete(e.code);
+    };
+    const releaseAll = () => heldShiftsRef.current.clear();
+    window.addEventListener('keydown', track);
+    window.addEventListener('keyup', track);
+    window.addEventListener('blur', releaseAll);
+    return () => {
+      window.removeEventListener('keydown', track);
+      window.removeEventListener('keyup', track);
+      window.removeEventListener('blur', releaseAll);
+    };
+  }, []);
+
   // --- Handlers ---
 
+  const reportAiError = (error: unknown) => {
+    console.error("Content request failed:", error);
+    setErrorBanner(`${(error as Error).message} Showing offline content instead.`);
+  };
+
+  // Text from outside the bundled generators is cleaned up for the active layout before it is typed
+  const prepareText = (raw: string, source: TextSource, difficulty?: string) =>
+    normalizeText(raw, settings.textRules, { source, layout, difficulty, language: settings.language });
+
+  // Generated passages that still fail validation after cleanup are asked for again, then replaced with offline text.
+  // Offline text is only cleaned up: asking again would not help, and there is no AI error to report.
+  const generatePassage = async (request: (source: ContentProvider) => Promise<string>, difficulty: string) => {
+    const context = { source: 'generated' as const, layout, difficulty, language: settings.language };
+    const offline = async () => normalizeText(await request(localProvider), settings.textRules, context);
+    if (provider.id === localProvider.id) return offline();
+    let problems: string[] = [];
+    for (let attempt = 0; attempt < GENERATION_ATTEMPTS; attempt++) {
+      let raw: string;
+      try {
+        raw = await request(provider);
+        setErrorBanner(null);
+      } catch (error) {
+        reportAiError(error);
+        return offline();
+      }
+      const passage = normalizeText(raw, settings.textRules, context);
+      problems = validateText(passage, settings.textRules, context);
+      if (problems.length === 0) return passage;
+    }
+    setErrorBanner(`Generated text was rejected: ${problems[0]}. Showing offline content instead.`);
+    return offline();
+  };
+
+  // Generated lessons for a mode, with the next one fetched in the background
+  const generateModeText = async (difficulty: string, topic: string) => {
+    setLoading(true);
+    const newText = await generatePassage(source => source.generateLessonContent([], difficulty, topic, [], settings.language), difficulty);
+    setText(newText);
+    setLoading(false);
+    provider.prefetchLessonContent?.([], difficulty, topic, [], settings.language);
+  };
+
   const handleModeChange = async (newMode: GameMode) => {
+    if (newMode !== GameMode.MULTIPLAYER) leaveRoom();
     setMode(newMode);
+    setReplay(null);
+    setGhost(null);
+    setCountdown(null);
     resetSession();
     
     if (newMode === GameMode.ZEN) {
-      setLoading(true);
-      const newText = await generateLessonContent([], 'Intermediate', 'Philosophy and Nature');
-      setText(newText);
-      setLoading(false);
+      await generateModeText('Intermediate', 'Philosophy and Nature');
     } else if (newMode === GameMode.LESSON) {
+      setActiveLesson(null);
       setText(DEFAULT_TEXT);
+    } else if (newMode === GameMode.TIMED) {
+      setText(buildTestText(settings.timedTest, settings.language));
+    } else if (newMode === GameMode.CODE) {
+      loadSnippet(randomSnippet(settings.codeLanguage));
+    } else if (newMode === GameMode.BOOK) {
+      setOpenBook(null);
+      setBooks(listBooks());
+    } else if (newMode === GameMode.REVIEW) {
+      setWordCards(loadWordCards());
+      setReviewing(false);
+    } else if (newMode === GameMode.DAILY) {
+      setDailyChallenge(buildDailyChallenge(dateKey()));
+      setDailyResults(loadDailyResults());
+      setDailyView('calendar');
+    } else if (newMode === GameMode.GAME_RACER) {
+      setRacePlans([]);
+      await generateModeText('Intermediate', 'technology');
     }
   };
 
+  // Bookmarks point at the next passage to type, so opening a book resumes there
+  const showBookChunk = (meta: BookMeta, chunks: string[], index: number) => {
+    const bookmark = index >= meta.chunkCount ? 0 : index;
+    const library = setBookmark(meta.id, bookmark);
+    setBooks(library);
+    setOpenBook({ meta: library.find(b => b.id === meta.id) || meta, chunks });
+    setText(chunks[bookmark]);
+    resetSession();
+  };
+
+  const handleBookOpen = (id: string) => {
+    const meta = listBooks().find(b => b.id === id);
+    const chunks = loadBookChunks(id);
+    if (!meta || !chunks) {
+      window.alert("This document could not be loaded from browser storage.");
+      return;
+    }
+    showBookChunk(meta, chunks, meta.bookmark);
+  };
+
+  const handleBookImport = (title: string, content: string, markdown: boolean) => {
+    try {
+      handleBookOpen(addBook(title, content, markdown, paragraph => prepareText(paragraph, 'imported')).id);
+    } catch (error) {
+      window.alert(`Could not import text: ${(error as Error).message}`);
+    }
+  };
+
+  const handleBookDelete = (id: string) => {
+    setBooks(deleteBook(id));
+  };
+
+  const startRace = () => {
+    const random = createRng(Date.now());
+    resetSession();
+    setRacePlans(settings.racerOpponents.map(id => {
+      const profile = getRacerProfile(id);
+      return { profile, splits: planRace(profile, text, random) };
+    }));
+    setCountdown(COUNTDOWN_SECONDS);
+  };
+
+  const handleServerMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'welcome':
+        setPlayerId(message.playerId);
+        setRaceResults(null);
+        break;
+      case 'room': {
+        const { type, ...state } = message;
+        setRoom(state);
+        break;
+      }
+      case 'countdown':
+        if (message.remaining > 0) {
+          resetSession();
+          setRaceResults(null);
+          setText(message.text);
+        }
+        setCountdown(message.remaining);
+        break;
+      case 'start': {
+        const now = Date.now();
+        setText(message.text);
+        setCountdown(null);
+        setStartTime(now);
+        setClock(now);
+        break;
+      }
+      case 'results':
+        setRaceResults(message.results);
+        break;
+      case 'error':
+        window.alert(message.message);
+        break;
+    }
+  };
+
+  const joinRace = async (code: string | null) => {
+    setConnecting(true);
+    try {
+      if (!connectionRef.current) {
+        connectionRef.current = await connectToRaceServer(
+          settings.raceServerUrl.trim() || defaultServerUrl(),
+          handleServerMessage,
+          () => {
+            connectionRef.current = null;
+            setRoom(null);
+            setCountdown(null);
+            window.alert("Lost the connection to the race server.");
+          }
+        );
+      }
+      if (code) connectionRef.current.join(code, settings.playerName);
+      else connectionRef.current.create(settings.playerName);
+    } catch (error) {
+      window.alert(`Could not reach the race server: ${(error as Error).message}`);
+    } finally {
+      setConnecting(false);
+    }
+  };
+
+  const leaveRoom = () => {
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    setRoom(null);
+    setPlayerId(null);
+    setRaceResults(null);
+  };
+
+  const startReview = () => {
+    resetSession();
+    setText(buildReviewText(dueWords, Math.random, settings.language).text);
+    setReviewing(true);
+  };
+
+  const playDailyPart = (part: 'typing' | 'rain') => {
+    if (!dailyChallenge) return;
+    resetSession();
+    if (part === 'typing') setText(dailyChallenge.passage);
+    setDailyView(part);
+  };
+
+  const loadSnippet = (snippet: CodeSnippet) => {
+    setCodeSnippet(snippet);
+    setText(prepareText(normalizeCode(snippet.code, settings.tabWidth), 'code'));
+    resetSession();
+  };
+
+  const handleCodeLanguageChange = (codeLanguage: CodeLanguage) => {
+    updateSettings({ codeLanguage });
+    loadSnippet(randomSnippet(codeLanguage));
+  };
+
+  const handleTimedConfigChange = (config: TimedTestConfig) => {
+    updateSettings({ timedTest: config });
+    setText(buildTestText(config, settings.language));
+    resetSession();
+  };
+
   const resetSession = () => {
     setUserInput('');
     setStartTime(null);
     setIsFinished(false);
-    setAiAdvice('');
+    coachSessionRef.current = null;
+    setCoachReport(null);
+    setLessonPassed(null);
+    setLastSessionId(null);
+    setFinalMetrics(null);
+    setTimedBest(null);
+    setRejectedIndex(null);
+    setRacePlacement(null);
+    keystrokesRef.current = [];
+    flowRef.current = [];
+  };
+
+  const handleLessonSelect = (lessonId: string) => {
+    const lesson = buildLesson(lessonId, settings.layoutId);
+    if (!lesson) return;
+    setGhost(null);
+    setActiveLesson(lesson);
+    setText(lesson.text);
+    resetSession();
+  };
+
+  // After a pass move on to the next unlocked lesson, otherwise retry with fresh drill text
+  const handleNextLesson = () => {
+    if (mode === GameMode.DAILY) {
+      resetSession();
+      setDailyView('calendar');
+      return;
+    }
+    if (mode === GameMode.REVIEW) {
+      resetSession();
+      setReviewing(false);
+      return;
+    }
+    if (mode === GameMode.BOOK && openBook) {
+      if (openBook.meta.bookmark >= openBook.meta.chunkCount) {
+        setOpenBook(null);
+        resetSession();
+      } else {
+        showBookChunk(openBook.meta, openBook.chunks, openBook.meta.bookmark);
+      }
+      return;
+    }
+    if (!activeLesson) {
+      resetSession();
+      if (mode === GameMode.ZEN || mode === GameMode.GAME_RACER) handleModeChange(mode);
+      return;
+    }
+    const nextId = getNextLessonId(activeLesson.id, settings.layoutId);
+    handleLessonSelect(nextId && isLessonUnlocked(nextId, lessonProgress, settings.layoutId) ? nextId : activeLesson.id);
   };
 
   const handleLessonGenerate = async (difficulty: string) => {
@@ -89,37 +603,71 @@ const App = () => {
       .filter((k: KeyStats) => (k.errors / k.total) > 0.1 && k.total > 5)
       .map((k: KeyStats) => k.char);
       
-    const newText = await generateLessonContent(weakKeys, difficulty, 'Science Fiction');
+    const focusNgrams = weakNgrams(ngramStats);
+    const newText = await generatePassage(
+      source => source.generateLessonContent(weakKeys, difficulty, 'Science Fiction', focusNgrams, settings.language),
+      difficulty
+    );
+    setActiveLesson(null);
+    setGhost(null);
     setText(newText);
     resetSession();
     setLoading(false);
+    provider.prefetchLessonContent?.(weakKeys, difficulty, 'Science Fiction', focusNgrams, settings.language);
   };
 
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (mode === GameMode.GAME_RAIN || isFinished || loading) return;
-
-    // Prevent default for scrolling keys if focused on body (handled by inputs usually but global listener here)
-    if([' '].includes(e.key) && e.target === document.body) {
-        e.preventDefault();
-    }
+  // Types a keystroke's character, or everything an IME committed at once, one grapheme at a time
+  const commitText = (typed: string, shiftKey: boolean, tabbed: boolean) => {
+    const now = Date.now();
+    if (!startTime) setStartTime(now);
+    const t = startTime ? now - startTime : 0;
+    setClock(now);
 
-    if (e.key.length === 1 || e.key === 'Backspace') {
-      if (!startTime) setStartTime(Date.now());
+    const offsets = graphemeOffsets(textGraphemes);
+    const keys = splitGraphemes(normalizeTyped(typed));
+    // Characters committed together share a timestamp, so only single keystrokes time the flow
+    const timed = keys.length === 1;
+    let input = userInput;
+    let rejected: number | null = null;
+    for (const key of keys) {
+      const position = graphemeCount(input);
+      if (position >= textGraphemes.length) break;
+      const expectedChar = textGraphemes[position];
+      const isCorrect = key === expectedChar;
+      const previous = keystrokesRef.current[keystrokesRef.current.length - 1];
+      const index = offsets[position];
+      const accepted = acceptsKey(settings.errorPolicy, input, text, key);
+      // Whitespace typed on the user's behalf after a correct Enter or Tab
+      const fill = mode !== GameMode.CODE || !isCorrect || !accepted
+        ? ''
+        : key === '\n'
+          ? (settings.autoIndent ? indentationAt(text, index + 1) : '')
+          : tabbed ? indentationAt(text, index + 1).slice(0, settings.tabWidth - 1) : '';
+      keystrokesRef.current.push({
+        t,
+        key: key + fill,
+        expected: expectedChar,
+        correct: isCorrect,
+        ...(accepted ? {} : { rejected: true }),
+      });
+      const flow = timed ? [...flowRef.current] : [];
+      setNgramStats(prev => recordNgrams(prev, text, index, t, flow, isCorrect));
+      flowRef.current = accepted ? [...flow, { index, t }].slice(-2) : [];
 
-      if (e.key === 'Backspace') {
-        setUserInput(prev => prev.slice(0, -1));
-        return;
+      // Credit the finger that should have struck the expected key
+      const finger = fingerForChar(layout, expectedChar);
+      if (finger) {
+        setFingerStats(prev => recordFingerStroke(prev, finger, isCorrect, previous && timed ? t - previous.t : null));
+        const hand = handOf(finger);
+        if (hand && shiftKey && locateChar(layout, expectedChar)?.shift) {
+          const held = new Set<string>(heldShiftsRef.current);
+          setShiftStats(prev => recordShiftUse(prev, hand, held));
+        }
       }
 
-      // Record Stats
-      const expectedChar = text[userInput.length];
-      const isCorrect = e.key === expectedChar;
-
       // Update Heatmap
       setKeyStats(prev => {
-        const charKey = expectedChar?.toLowerCase() || '';
-        if(!charKey) return prev;
-        
+        const charKey = expectedChar.toLowerCase();
         const current = prev[charKey] || { char: charKey, total: 0, errors: 0 };
         return {
           ...prev,
@@ -131,31 +679,343 @@ const App = () => {
         };
       });
 
-      setUserInput(prev => {
-        const next = prev + e.key;
-        if (next.length === text.length) {
-          finishSession(next);
-        }
-        return next;
-      });
+      // A refused key still counts as a mistake above, but the caret stays put and
+      // the rest of an IME commit is dropped with it
+      if (!accepted) {
+        rejected = index;
+        break;
+      }
+      input += key + fill;
+    }
+
+    setRejectedIndex(rejected);
+    if (input === userInput) return;
+    setUserInput(input);
+    if (graphemeCount(input) >= textGraphemes.length) finishSession();
+
+    if (timeLimitMs) {
+      const extended = extendStream(text, input.length, settings.language);
+      if (extended) setText(extended);
+    }
+  };
+
+  // The deps cover everything commitText and finishSession read, since both run from here
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (!typingActive) return;
+    // Leave keystrokes aimed at form fields (e.g. pasting code) alone
+    if ((e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) && !isCaptureTarget(e.target)) return;
+    // Dead keys and IME composition finish in TextInputCapture, which commits the composed text
+    if (e.isComposing || e.keyCode === 229 || ['Dead', 'Process', 'Unidentified'].includes(e.key)) return;
+
+    // Emulate the chosen layout from physical key positions when the OS layout differs
+    const remapped = settings.remapKeys && isSingleGrapheme(e.key) && !e.ctrlKey && !e.metaKey
+      ? charForCode(layout, e.code, e.shiftKey)
+      : null;
+    let key = remapped ?? e.key;
+
+    // Code is typed with real line breaks; Tab stands in for a run of indentation spaces
+    if (mode === GameMode.CODE) {
+      if (key === 'Enter' || key === 'Tab') e.preventDefault();
+      if (key === 'Enter') key = '\n';
+      if (key === 'Tab') key = ' ';
     }
-  }, [mode, isFinished, loading, startTime, text, userInput]);
 
-  const finishSession = async (finalInput: string) => {
+    if (key === 'Backspace') {
+      if (!settings.allowBackspace) return;
+      const now = Date.now();
+      if (!startTime) setStartTime(now);
+      const t = startTime ? now - startTime : 0;
+      setClock(now);
+      // Ctrl+Backspace on Windows/Linux, Alt+Backspace on macOS
+      const wholeWord = e.ctrlKey || e.altKey;
+      if (wholeWord) e.preventDefault();
+      keystrokesRef.current.push({ t, key: wholeWord ? WORD_BACKSPACE : 'Backspace', expected: '', correct: true });
+      flowRef.current = [];
+      setRejectedIndex(null);
+      setUserInput(prev => (wholeWord ? deleteWord(prev) : dropLastGrapheme(prev)));
+      return;
+    }
+
+    if (isSingleGrapheme(key)) {
+      // Handled here, so the capture field must not receive it too (and Space must not scroll).
+      // Browser shortcuts stay working; AltGr arrives as Ctrl+Alt and still types.
+      if (!e.metaKey && !(e.ctrlKey && !e.altKey)) e.preventDefault();
+      commitText(key, e.shiftKey, e.key === 'Tab');
+    }
+  }, [
+    typingActive, mode, startTime, text, textGraphemes, userInput, activeLesson, lessonProgress, settings, layout,
+    timeLimitMs, sessions, racePlans, wordCards, dailyChallenge, dailyResults, openBook, keyStats, ngramStats,
+    fingerStats, provider,
+  ]);
+
+  // A limit ends a timed test at exactly that mark; otherwise the session ends on its last keystroke
+  const finishSession = (limitMs?: number) => {
+    const events = keystrokesRef.current;
+    const metrics = computeMetrics(events, text, limitMs ?? logDuration(events));
+    const { netWpm: wpm, accuracy } = metrics;
     setIsFinished(true);
-    // Calculate final stats
-    const errors = finalInput.split('').reduce((acc, char, idx) => char !== text[idx] ? acc + 1 : acc, 0);
-    const chars = finalInput.length;
-    const durationMin = (Date.now() - (startTime || Date.now())) / 60000;
-    const wpm = Math.round((chars / 5) / durationMin);
-    const accuracy = Math.round(((chars - errors) / chars) * 100);
+    setFinalMetrics(metrics);
+    if (startTime) setClock(startTime + metrics.durationMs);
 
-    const weakKeys = Object.values(keyStats)
-      .filter((k: KeyStats) => (k.errors / k.total) > 0.1)
-      .map((k: KeyStats) => k.char);
+    const testConfig = mode === GameMode.TIMED ? configKey(settings.timedTest) : undefined;
+    const placement = mode === GameMode.GAME_RACER && racePlans.length > 0
+      ? 1 + racePlans.filter(p => p.splits[p.splits.length - 1] < metrics.durationMs).length
+      : undefined;
+    if (placement) setRacePlacement(placement);
+    // The server times the finish and ranks everyone; placement arrives with its results
+    if (mode === GameMode.MULTIPLAYER) connectionRef.current?.finish(finalInputFrom(events));
+    if (testConfig) {
+      setTimedBest(personalBestFor(sessions, settings.timedTest)?.stats.wpm ?? null);
+    }
 
-    const advice = await generateTypingAdvice(wpm, accuracy, weakKeys);
-    setAiAdvice(advice);
+    const history = appendSession({
+      mode,
+      stats: {
+        wpm,
+        accuracy,
+        timeElapsed: metrics.durationMs / 1000,
+        mistakes: metrics.keystrokeErrors,
+        charsTyped: metrics.charsTyped,
+        rawWpm: metrics.grossWpm,
+        consistency: metrics.consistency,
+      },
+      lessonId: activeLesson?.id,
+      testConfig,
+      placement,
+    });
+    const session = history[history.length - 1];
+    setSessions(history);
+    setLastSessionId(session.id);
+    saveReplay(session.id, {
+      mode,
+      text,
+      startedAt: startTime || session.timestamp,
+      events: [...events],
+    });
+
+    // Code is left out: identifiers and punctuation runs are not words worth drilling
+    if (mode !== GameMode.CODE) {
+      const cards = updateCards(wordCards, analyzeWords(events, text));
+      saveWordCards(cards);
+      setWordCards(cards);
+    }
+
+    const daily = mode === GameMode.DAILY && dailyChallenge
+      ? recordDailyResult(dailyChallenge.date, { typing: { wpm, accuracy, grades: gradeSegments(events, text) } })
+      : dailyResults;
+    setDailyResults(daily);
+    reportProgress({ session, sessions: history, lesson: activeLesson, dailyStreak: currentStreak(daily) });
+
+    // A typed passage moves the bookmark on, whatever the score
+    if (mode === GameMode.BOOK && openBook) {
+      const library = setBookmark(openBook.meta.id, openBook.meta.bookmark + 1);
+      setBooks(library);
+      setOpenBook({ ...openBook, meta: library.find(b => b.id === openBook.meta.id) || openBook.meta });
+    }
+
+    if (mode === GameMode.LESSON && activeLesson) {
+      const passed = meetsCriteria(activeLesson.passCriteria, wpm, accuracy);
+      setLessonPassed(passed);
+      setLessonProgress(saveLessonProgress(
+        mergeProgress(lessonProgress[activeLesson.id], activeLesson.id, wpm, accuracy, passed)
+      ));
+    }
+
+    // The offline report shows at once; an AI one replaces it if it arrives before the next session
+    const coachInput = buildCoachInput(metrics, keyStats, ngramStats, fingerStats);
+    coachSessionRef.current = session.id;
+    setCoachReport(buildCoachReport(coachInput));
+    if (provider.id !== localProvider.id) {
+      provider.generateCoachReport(coachInput).then(report => {
+        if (coachSessionRef.current !== session.id) return;
+        setErrorBanner(null);
+        setCoachReport(report);
+      }, reportAiError);
+    }
+  };
+
+  // Coach drills open as free-form lessons, the same way generated practice text does
+  const launchDrill = async (drill: CoachDrill) => {
+    handleModeChange(GameMode.LESSON);
+    const context = { source: 'generated' as const, layout, difficulty: 'Intermediate', language: settings.language };
+    const drillText = normalizeText(drill.text, settings.textRules, context);
+    setText(validateText(drillText, settings.textRules, context).length === 0
+      ? drillText
+      : await localProvider.generateLessonContent(drill.focusKeys, 'Intermediate', 'general', drill.focusNgrams, settings.language));
+  };
+
+  // Achievements and XP are judged after every finished session or game
+  const reportProgress = (event: Pick<ProgressEvent, 'session' | 'sessions'> & Partial<ProgressEvent>) => {
+    const update = recordProgress({
+      keyStats,
+      layout,
+      lesson: null,
+      rain: null,
+      dailyStreak: currentStreak(dailyResults),
+      ...event,
+    });
+    setProfile(update.profile);
+    const earned: Omit<Toast, 'id'>[] = [
+      ...update.unlocked.map(a => ({ icon: a.icon, title: a.title, detail: `${a.description} · +${a.xp} XP` })),
+      ...(update.levelUp ? [{ icon: '⭐', title: `Level ${update.levelUp}!`, detail: `${update.profile.xp} XP earned so far` }] : []),
+    ];
+    setToasts(prev => [...prev, ...earned.map(t => ({ ...t, id: nextToastIdRef.current++ }))]);
+  };
+
+  const handleGameEnd = (summary: RainSummary) => {
+    const correct = summary.keystrokes - summary.mistakes;
+    // The daily rain goes straight back to the calendar, where the score now shows
+    if (mode === GameMode.DAILY && dailyChallenge) {
+      setDailyResults(recordDailyResult(dailyChallenge.date, { rain: { score: summary.score, level: summary.level } }));
+      setDailyView('calendar');
+    } else {
+      setRainSummary(summary);
+      setIsFinished(true);
+    }
+    const history = appendSession({
+      mode: GameMode.GAME_RAIN,
+      stats: {
+        wpm: wpmFromChars(correct, summary.elapsedMs),
+        accuracy: summary.accuracy,
+        timeElapsed: summary.elapsedMs / 1000,
+        mistakes: summary.mistakes,
+        charsTyped: correct,
+      },
+      score: summary.score,
+    });
+    setSessions(history);
+    reportProgress({ session: history[history.length - 1], sessions: history, rain: summary });
+  };
+
+  const handleOpenReplay = (sessionId: string) => {
+    const stored = loadReplay(sessionId);
+    if (stored) setReplay(stored);
+  };
+
+  // Race a recorded run on its own passage
+  const startGhostRace = (run: SessionReplay) => {
+    if (run.mode === GameMode.CODE) setMode(GameMode.CODE);
+    else if (mode !== GameMode.LESSON && mode !== GameMode.ZEN) setMode(GameMode.LESSON);
+    setReplay(null);
+    setCodeSnippet(null);
+    setActiveLesson(null);
+    setText(run.text);
+    setGhost(run);
+    resetSession();
+  };
+
+  const handleImportReplay = async (file: File) => {
+    try {
+      setReplay(await importReplay(file));
+    } catch (error) {
+      window.alert(`Could not import replay: ${(error as Error).message}`);
+    }
+  };
+
+  const updateSettings = (patch: Partial<AppSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  // Lesson ids are per layout, so an open curriculum lesson is closed on a layout switch
+  const closeLayoutLesson = () => {
+    if (activeLesson) {
+      setActiveLesson(null);
+      setText(DEFAULT_TEXT);
+      resetSession();
+    }
+  };
+
+  const handleLayoutChange = (layoutId: AppSettings['layoutId']) => {
+    updateSettings({ layoutId });
+    closeLayoutLesson();
+  };
+
+  // A language suggests the layout its typists usually use, but the choice stays with the user
+  const handleLanguageChange = (language: LanguageId) => {
+    const { layoutId } = getLanguagePack(language);
+    const switchLayout = layoutId !== settings.layoutId
+      && window.confirm(`Switch the keyboard layout to ${getLayout(layoutId).label} as well?`);
+    if (!switchLayout) {
+      updateSettings({ language });
+      return;
+    }
+    updateSettings({ language, layoutId });
+    closeLayoutLesson();
+  };
+
+  const handleProviderChange = (id: ContentProviderId) => {
+    setProviderId(id);
+    setErrorBanner(null);
+    saveProviderId(id);
+  };
+
+  const handleClearHistory = () => {
+    clearHistory();
+    clearReplays();
+    setSessions([]);
+    setKeyStats({});
+    setFingerStats({});
+    setShiftStats({ total: 0, oppositeHand: 0 });
+    setNgramStats({});
+    setLessonProgress({});
+  };
+
+  const handleExportData = (kind: DataExportKind) => {
+    if (kind === 'archive') {
+      flushStats();
+      const stores = { history: loadHistory(), daily: loadDailyResults(), profile: loadProfile(), words: loadWordCards() };
+      downloadFile(exportFileName('data', 'json'), JSON.stringify(buildArchive(stores, settings)), 'application/json');
+    } else if (kind === 'sessions') {
+      downloadFile(exportFileName('sessions', 'csv'), sessionsToCsv(sessions), 'text/csv');
+    } else {
+      downloadFile(exportFileName('keys', 'csv'), keyStatsToCsv(keyStats), 'text/csv');
+    }
+  };
+
+  // Replacing adopts the imported settings too; merging keeps this browser's settings
+  const handleImportData = async (file: File, merge: boolean) => {
+    try {
+      const imported = await readArchiveFile(file);
+      if (!merge && !window.confirm("Replace all history and settings in this browser with the imported data?")) return;
+      flushStats();
+      const localHistory = loadHistory();
+      const history = merge ? mergeHistory(localHistory, imported.history) : imported.history;
+      replaceHistory(history);
+      setSessions(history.sessions);
+      setKeyStats(history.keyStats);
+      setFingerStats(history.fingerStats);
+      setShiftStats(history.shiftStats);
+      setNgramStats(history.ngramStats);
+      setLessonProgress(history.lessonProgress);
+      if (imported.daily) {
+        const daily = merge ? mergeDailyResults(loadDailyResults(), imported.daily) : imported.daily;
+        saveDailyResults(daily);
+        setDailyResults(daily);
+      }
+      if (imported.profile) {
+        const added = newSessions(localHistory, imported.history);
+        const profile = merge ? mergeProfile(loadProfile(), imported.profile, added) : imported.profile;
+        saveProfile(profile);
+        setProfile(profile);
+      }
+      if (imported.words) {
+        const cards = merge ? mergeWordCards(loadWordCards(), imported.words) : imported.words;
+        saveWordCards(cards);
+        setWordCards(cards);
+      }
+      if (!merge && imported.settings) {
+        setSettings(imported.settings);
+        saveSettings(imported.settings);
+      }
+      window.alert(
+        `Imported ${imported.history.sessions.length} sessions.` +
+        (imported.skippedSessions ? ` ${imported.skippedSessions} malformed sessions were skipped.` : '')
+      );
+    } catch (error) {
+      window.alert(`Could not import data: ${(error as Error).message}`);
+    }
   };
 
   useEffect(() => {
@@ -177,6 +1037,19 @@ const App = () => {
           </h1>
         </div>
 
+        <button onClick={() => handleModeChange(GameMode.PROFILE)} className="flex flex-col gap-1 text-left group" title="Open your badge wall">
+          <span className="flex justify-between text-xs font-bold text-gray-400 tracking-wider group-hover:text-neon-purple transition-colors">
+            <span>LEVEL {playerLevel.level}</span>
+            <span className="font-mono">{profile.xp} XP</span>
+          </span>
+          <span className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+            <span
+              className="block h-full bg-gradient-to-r from-neon-blue to-neon-purple"
+              style={{ width: `${(playerLevel.progress / playerLevel.needed) * 100}%` }}
+            ></span>
+          </span>
+        </button>
+
         <nav className="flex flex-col gap-2">
           <MenuButton 
             active={mode === GameMode.LESSON} 
@@ -190,15 +1063,199 @@ const App = () => {
             icon={<SparklesIcon className="w-5 h-5" />}
             label="Zen Mode" 
           />
+          <MenuButton 
+            active={mode === GameMode.TIMED} 
+            onClick={() => handleModeChange(GameMode.TIMED)}
+            icon={<ClockIcon className="w-5 h-5" />}
+            label="Timed Test" 
+          />
+          <MenuButton 
+            active={mode === GameMode.CODE} 
+            onClick={() => handleModeChange(GameMode.CODE)}
+            icon={<CodeBracketIcon className="w-5 h-5" />}
+            label="Code" 
+          />
+          <MenuButton 
+            active={mode === GameMode.DAILY} 
+            onClick={() => handleModeChange(GameMode.DAILY)}
+            icon={<CalendarDaysIcon className="w-5 h-5" />}
+            label="Daily Challenge" 
+          />
+          <MenuButton 
+            active={mode === GameMode.REVIEW} 
+            onClick={() => handleModeChange(GameMode.REVIEW)}
+            icon={<AcademicCapIcon className="w-5 h-5" />}
+            label={dueWords.length > 0 ? `Review (${dueWords.length})` : 'Review'} 
+          />
+          <MenuButton 
+            active={mode === GameMode.BOOK} 
+            onClick={() => handleModeChange(GameMode.BOOK)}
+            icon={<BookOpenIcon className="w-5 h-5" />}
+            label="Book Mode" 
+          />
           <MenuButton 
             active={mode === GameMode.GAME_RAIN} 
             onClick={() => handleModeChange(GameMode.GAME_RAIN)}
             icon={<BoltIcon className="w-5 h-5" />}
             label="Neon Rain" 
           />
+          <MenuButton 
+            active={mode === GameMode.GAME_RACER} 
+            onClick={() => handleModeChange(GameMode.GAME_RACER)}
+            icon={<FlagIcon className="w-5 h-5" />}
+            label="Typing Racer" 
+          />
+          <MenuButton 
+            active={mode === GameMode.MULTIPLAYER} 
+            onClick={() => handleModeChange(GameMode.MULTIPLAYER)}
+            icon={<WifiIcon className="w-5 h-5" />}
+            label="LAN Race" 
+          />
+          <MenuButton 
+            active={mode === GameMode.ANALYTICS} 
+            onClick={() => handleModeChange(GameMode.ANALYTICS)}
+            icon={<ChartBarIcon className="w-5 h-5" />}
+            label="Analytics" 
+          />
+          <MenuButton 
+            active={mode === GameMode.PROFILE} 
+            onClick={() => handleModeChange(GameMode.PROFILE)}
+            icon={<TrophyIcon className="w-5 h-5" />}
+            label="Profile" 
+          />
         </nav>
 
-        <div className="mt-auto pt-6 border-t border-gray-200 dark:border-slate-700">
+        {mode === GameMode.LESSON && (
+          <LessonPicker
+            activeLessonId={activeLesson?.id || null}
+            progress={lessonProgress}
+            layoutId={settings.layoutId}
+            onSelect={handleLessonSelect}
+          />
+        )}
+
+        <div className="mt-auto pt-6 border-t border-gray-200 dark:border-slate-700 flex flex-col gap-4">
+          <label className="flex flex-col gap-1 text-xs font-bold text-gray-400 tracking-wider" title="Language of generated lessons, tests and game words">
+            LANGUAGE
+            <select
+              value={settings.language}
+              onChange={(e) => handleLanguageChange(e.target.value as LanguageId)}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 dark:bg-slate-800 text-gray-700 dark:text-gray-200"
+            >
+              {Object.values(LANGUAGE_PACKS).map(pack => (
+                <option key={pack.id} value={pack.id}>{pack.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-bold text-gray-400 tracking-wider">
+            KEYBOARD LAYOUT
+            <select
+              value={settings.layoutId}
+              onChange={(e) => handleLayoutChange(e.target.value as AppSettings['layoutId'])}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 dark:bg-slate-800 text-gray-700 dark:text-gray-200"
+            >
+              {Object.values(LAYOUTS).map(l => (
+                <option key={l.id} value={l.id}>{l.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-500 dark:text-gray-400" title="Translate physical keys to the selected layout, for learning a layout your OS is not set to">
+            <input
+              type="checkbox"
+              checked={settings.remapKeys}
+              onChange={(e) => updateSettings({ remapKeys: e.target.checked })}
+              className="accent-neon-blue"
+            />
+            Remap physical keys
+          </label>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-500 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={settings.showFingerGuide}
+              onChange={(e) => updateSettings({ showFingerGuide: e.target.checked })}
+              className="accent-neon-blue"
+            />
+            Finger guide
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-bold text-gray-400 tracking-wider">
+            ERROR HANDLING
+            <select
+              value={settings.errorPolicy}
+              onChange={(e) => updateSettings({ errorPolicy: e.target.value as ErrorPolicy })}
+              title={ERROR_POLICIES[settings.errorPolicy].description}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 dark:bg-slate-800 text-gray-700 dark:text-gray-200"
+            >
+              {(Object.keys(ERROR_POLICIES) as ErrorPolicy[]).map(id => (
+                <option key={id} value={id}>{ERROR_POLICIES[id].label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-500 dark:text-gray-400" title="Hide mistakes and accuracy until the session ends">
+            <input
+              type="checkbox"
+              checked={settings.blindMode}
+              onChange={(e) => updateSettings({ blindMode: e.target.checked })}
+              className="accent-neon-blue"
+            />
+            Blind mode
+          </label>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-500 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={settings.allowBackspace}
+              onChange={(e) => updateSettings({ allowBackspace: e.target.checked })}
+              className="accent-neon-blue"
+            />
+            Allow backspace
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-bold text-gray-400 tracking-wider">
+            CONTENT SOURCE
+            <select
+              value={providerId}
+              onChange={(e) => handleProviderChange(e.target.value as ContentProviderId)}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 dark:bg-slate-800 text-gray-700 dark:text-gray-200"
+            >
+              {Object.values(PROVIDERS).map(p => (
+                <option key={p.id} value={p.id} disabled={!isProviderAvailable(p.id)}>
+                  {p.label}{isProviderAvailable(p.id) ? '' : ' (no API key)'}
+                </option>
+              ))}
+            </select>
+          </label>
+          <details className="text-xs font-bold text-gray-400 tracking-wider">
+            <summary className="cursor-pointer">TEXT CLEANUP</summary>
+            <div className="mt-2 flex flex-col gap-1">
+              {TEXT_RULES.map(rule => (
+                <label key={rule.id} className="flex items-center gap-2 text-sm font-medium tracking-normal text-gray-500 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={settings.textRules[rule.id]}
+                    onChange={(e) => updateSettings({ textRules: { ...settings.textRules, [rule.id]: e.target.checked } })}
+                    className="accent-neon-blue"
+                  />
+                  {rule.label}
+                </label>
+              ))}
+            </div>
+          </details>
+          {providerId === 'gemini' && (
+            <label className="flex flex-col gap-1 text-xs font-bold text-gray-400 tracking-wider">
+              AI REQUESTS / MINUTE
+              <input
+                type="number"
+                min={AI_REQUESTS_PER_MINUTE.min}
+                max={AI_REQUESTS_PER_MINUTE.max}
+                value={settings.aiRequestsPerMinute}
+                onChange={(e) => {
+                  const value = Math.round(Number(e.target.value));
+                  if (value >= AI_REQUESTS_PER_MINUTE.min) {
+                    updateSettings({ aiRequestsPerMinute: Math.min(value, AI_REQUESTS_PER_MINUTE.max) });
+                  }
+                }}
+                className="px-3 py-2 rounded-lg text-sm font-medium bg-slate-100 dark:bg-slate-800 text-gray-700 dark:text-gray-200"
+              />
+            </label>
+          )}
           <button 
             onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
             className="flex items-center gap-2 text-sm font-medium text-gray-500 hover:text-gray-900 dark:hover:text-white transition-colors"
@@ -211,102 +1268,372 @@ const App = () => {
 
       {/* Main Content */}
       <main className="flex-1 p-6 md:p-12 overflow-y-auto flex flex-col items-center max-w-7xl mx-auto w-full">
-        
+
+        {errorBanner && (
+          <div className="w-full max-w-4xl mb-6 flex items-center gap-3 px-4 py-3 rounded-lg border border-amber-400 bg-amber-50 dark:bg-amber-900/30 text-sm text-amber-800 dark:text-amber-200">
+            <ExclamationTriangleIcon className="w-5 h-5 shrink-0" />
+            <span className="flex-1">{errorBanner}</span>
+            <button onClick={() => setErrorBanner(null)} aria-label="Dismiss" className="hover:opacity-70">
+              <XMarkIcon className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* Header Stats */}
-        <div className="w-full flex justify-between items-center mb-12">
-           <div className="flex gap-8">
-              <StatCard label="WPM" value={currentStats.wpm} color="text-neon-green" />
-              <StatCard label="ACCURACY" value={`${currentStats.accuracy}%`} color="text-neon-blue" />
-           </div>
-           {mode === GameMode.LESSON && (
-             <button 
-               onClick={() => handleLessonGenerate('Intermediate')}
-               className="flex items-center gap-2 px-4 py-2 bg-slate-200 dark:bg-slate-800 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors text-sm font-bold"
-               disabled={loading}
-             >
-               <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
-               {loading ? 'Generating...' : 'Surprise Me'}
-             </button>
-           )}
-        </div>
+        {mode !== GameMode.ANALYTICS && mode !== GameMode.PROFILE && !replay && (
+          <div className="w-full flex justify-between items-center mb-12">
+             <div className="flex gap-8">
+                {/* Blind mode shows gross speed only; net WPM and accuracy would give mistakes away */}
+                <StatCard label="WPM" value={blind ? currentStats.grossWpm : currentStats.netWpm} color="text-neon-green" />
+                <StatCard label="ACCURACY" value={blind ? '—' : `${currentStats.accuracy}%`} color="text-neon-blue" />
+                {timeLimitMs && (
+                  <StatCard
+                    label="TIME LEFT"
+                    value={Math.max(0, Math.ceil((timeLimitMs - (startTime ? (isFinished ? timeLimitMs : clock - startTime) : 0)) / 1000))}
+                    color="text-neon-pink"
+                  />
+                )}
+                {mode === GameMode.TIMED && settings.timedTest.kind === 'words' && (
+                  <StatCard
+                    label="WORDS"
+                    value={`${userInput.split(' ').length - (userInput.endsWith(' ') || !userInput ? 1 : 0)}/${settings.timedTest.value}`}
+                    color="text-neon-pink"
+                  />
+                )}
+                {ghost && (
+                  <StatCard
+                    label="VS GHOST"
+                    value={ghostDelta === null ? '--' : `${ghostDelta >= 0 ? '+' : ''}${ghostDelta.toFixed(1)}s`}
+                    color={ghostDelta !== null && ghostDelta < 0 ? 'text-red-500' : 'text-neon-green'}
+                  />
+                )}
+             </div>
+             <div className="flex gap-3">
+               {(mode === GameMode.LESSON || mode === GameMode.ZEN) && (
+                 <button 
+                   onClick={() => personalBest && startGhostRace(personalBest)}
+                   className="flex items-center gap-2 px-4 py-2 bg-slate-200 dark:bg-slate-800 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors text-sm font-bold disabled:opacity-40"
+                   disabled={loading || !personalBest}
+                   title={personalBest ? 'Race the ghost of your fastest recorded run' : 'Finish a session to record a ghost'}
+                 >
+                   <UserGroupIcon className="w-4 h-4" />
+                   Race PB
+                 </button>
+               )}
+               {mode === GameMode.LESSON && (
+                 <button 
+                   onClick={() => handleLessonGenerate('Intermediate')}
+                   className="flex items-center gap-2 px-4 py-2 bg-slate-200 dark:bg-slate-800 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors text-sm font-bold"
+                   disabled={loading}
+                 >
+                   <ArrowPathIcon className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                   {loading ? 'Generating...' : 'Surprise Me'}
+                 </button>
+               )}
+             </div>
+          </div>
+        )}
 
         {/* Dynamic Content Based on Mode */}
-        {mode === GameMode.GAME_RAIN ? (
+        {replay ? (
+          <ReplayViewer replay={replay} onClose={() => setReplay(null)} onRace={() => startGhostRace(replay)} />
+        ) : mode === GameMode.ANALYTICS ? (
+          <AnalyticsDashboard
+            sessions={sessions}
+            keyStats={keyStats}
+            fingerStats={fingerStats}
+            shiftStats={shiftStats}
+            ngramStats={ngramStats}
+            layout={layout}
+            onClear={handleClearHistory}
+            onReplay={handleOpenReplay}
+            onImportReplay={handleImportReplay}
+            onExportData={handleExportData}
+            onImportData={handleImportData}
+          />
+        ) : mode === GameMode.PROFILE ? (
+          <BadgeWall profile={profile} />
+        ) : mode === GameMode.GAME_RAIN ? (
           <div className="w-full max-w-4xl">
              {isFinished ? (
                  <div className="bg-dark-surface p-8 rounded-2xl border border-neon-purple text-center">
                     <h2 className="text-3xl font-bold mb-4 text-white">Game Over</h2>
-                    <p className="text-xl text-neon-blue mb-6">Final Score: {lastGameScore}</p>
+                    <p className="text-xl text-neon-blue mb-6">Final Score: {rainSummary?.score ?? 0}</p>
+                    {rainSummary && (
+                      <div className="grid grid-cols-2 sm:grid-cols-5 gap-4 mb-8 font-mono">
+                        <RainStat label="WORDS" value={rainSummary.wordsCleared} />
+                        <RainStat label="ACCURACY" value={`${rainSummary.accuracy}%`} />
+                        <RainStat label="BEST COMBO" value={rainSummary.maxCombo} />
+                        <RainStat label="LEVEL" value={rainSummary.level} />
+                        <RainStat label="POWER-UPS" value={rainSummary.powerUps} />
+                      </div>
+                    )}
                     <button 
-                      onClick={() => { setIsFinished(false); setLastGameScore(0); }}
+                      onClick={() => { setIsFinished(false); setRainSummary(null); }}
                       className="px-6 py-3 bg-neon-purple text-white rounded-lg font-bold hover:bg-opacity-80 transition"
                     >
                       Play Again
                     </button>
                  </div>
              ) : (
-                <RainGame onGameEnd={(score) => { setLastGameScore(score); setIsFinished(true); }} />
+                <RainGame
+                  provider={provider}
+                  language={settings.language}
+                  prepareWords={words => cleanWords(words, settings.textRules, { source: 'generated', layout, language: settings.language })}
+                  onGameEnd={handleGameEnd}
+                  onProviderError={reportAiError}
+                />
              )}
           </div>
+        ) : mode === GameMode.BOOK && !openBook ? (
+          <BookShelf
+            books={books}
+            onOpen={handleBookOpen}
+            onDelete={handleBookDelete}
+            onImport={handleBookImport}
+            onError={setErrorBanner}
+          />
+        ) : mode === GameMode.DAILY && dailyChallenge && dailyView !== 'typing' ? (
+          dailyView === 'rain' ? (
+            <div className="w-full max-w-4xl">
+              <RainGame
+                provider={provider}
+                wordPool={dailyChallenge.rainWords}
+                seed={dailyChallenge.rainSeed}
+                onGameEnd={handleGameEnd}
+              />
+            </div>
+          ) : (
+            <DailyChallenge
+              challenge={dailyChallenge}
+              results={dailyResults}
+              onPlayPassage={() => playDailyPart('typing')}
+              onPlayRain={() => playDailyPart('rain')}
+            />
+          )
+        ) : mode === GameMode.REVIEW && !reviewing ? (
+          <ReviewDeck cards={wordCards} due={dueWords} onStart={startReview} />
+        ) : mode === GameMode.MULTIPLAYER && !startTime && countdown === null ? (
+          <MultiplayerLobby
+            room={room}
+            playerId={playerId}
+            results={raceResults}
+            connecting={connecting}
+            playerName={settings.playerName}
+            serverUrl={settings.raceServerUrl}
+            onNameChange={(playerName) => updateSettings({ playerName })}
+            onServerUrlChange={(raceServerUrl) => updateSettings({ raceServerUrl })}
+            onCreate={() => joinRace(null)}
+            onJoin={joinRace}
+            onStart={() => connectionRef.current?.start()}
+            onLeave={leaveRoom}
+          />
         ) : (
           <>
+            {mode === GameMode.TIMED && (
+              isFinished && finalMetrics ? (
+                <TimedResults
+                  config={settings.timedTest}
+                  metrics={finalMetrics}
+                  personalBest={timedBest}
+                  onRestart={() => handleTimedConfigChange(settings.timedTest)}
+                />
+              ) : (
+                <TimedTestPicker
+                  config={settings.timedTest}
+                  disabled={Boolean(startTime) && !isFinished}
+                  onChange={handleTimedConfigChange}
+                />
+              )
+            )}
+
+            {mode === GameMode.GAME_RACER && (
+              <>
+                {!startTime && countdown === null && (
+                  <RacerSetup
+                    opponents={settings.racerOpponents}
+                    disabled={loading}
+                    onChange={(racerOpponents) => updateSettings({ racerOpponents })}
+                    onStart={startRace}
+                  />
+                )}
+                {raceLanes.length > 0 && <RaceTrack lanes={raceLanes} countdown={countdown} />}
+              </>
+            )}
+
+            {mode === GameMode.MULTIPLAYER && roomLanes.length > 0 && (
+              <RaceTrack lanes={roomLanes} countdown={countdown} />
+            )}
+
+            {mode === GameMode.CODE && (
+              <CodePicker
+                language={settings.codeLanguage}
+                activeSnippetId={codeSnippet?.id || null}
+                autoIndent={settings.autoIndent}
+                disabled={Boolean(startTime) && !isFinished}
+                onLanguageChange={handleCodeLanguageChange}
+                onSelect={loadSnippet}
+                onAutoIndentChange={(autoIndent) => updateSettings({ autoIndent })}
+                onError={setErrorBanner}
+              />
+            )}
+
             {/* Results Modal */}
-            {isFinished && (
+            {isFinished && mode !== GameMode.TIMED && (
               <div className="w-full max-w-4xl mb-8 p-6 bg-white dark:bg-slate-800 rounded-xl border border-neon-green shadow-lg animate-fade-in-up">
                 <div className="flex flex-col md:flex-row justify-between items-start gap-4">
                   <div>
                     <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Session Complete!</h2>
                     <p className="text-gray-600 dark:text-gray-300">
-                      WPM: <span className="text-neon-green font-bold text-xl">{currentStats.wpm}</span> | 
+                      WPM: <span className="text-neon-green font-bold text-xl">{currentStats.netWpm}</span> | 
                       Accuracy: <span className="text-neon-blue font-bold text-xl">{currentStats.accuracy}%</span>
                     </p>
+                    <p className="mt-1 text-sm font-mono text-gray-500 dark:text-gray-400">
+                      raw {currentStats.grossWpm} wpm · {currentStats.rawCpm} cpm · consistency {currentStats.consistency}% · {currentStats.finalAccuracy}% after {currentStats.corrections} corrections
+                    </p>
+                    {ghost && ghostDelta !== null && (
+                      <p className={`mt-2 text-sm font-bold ${ghostDelta >= 0 ? 'text-neon-green' : 'text-red-500'}`}>
+                        {ghostDelta >= 0 ? `You beat your ghost by ${ghostDelta.toFixed(1)}s` : `Your ghost won by ${(-ghostDelta).toFixed(1)}s`}
+                      </p>
+                    )}
+                    {racePlacement !== null && (
+                      <p className={`mt-2 text-sm font-bold ${racePlacement === 1 ? 'text-neon-green' : 'text-neon-purple'}`}>
+                        You finished {racePlacement === 1 ? 'first' : `in position ${racePlacement}`} of {racePlans.length + 1}
+                      </p>
+                    )}
+                    {mode === GameMode.MULTIPLAYER && (
+                      <p className="mt-2 text-sm font-bold text-neon-purple">
+                        {myRaceResult
+                          ? `Race server: ${myRaceResult.place === 1 ? 'first' : `position ${myRaceResult.place}`} of ${raceResults!.length} at ${myRaceResult.wpm} wpm`
+                          : 'Waiting for the other racers to finish...'}
+                      </p>
+                    )}
+                    {activeLesson?.passCriteria && lessonPassed !== null && (
+                      <p className={`mt-2 text-sm font-bold ${lessonPassed ? 'text-neon-green' : 'text-red-500'}`}>
+                        {lessonPassed ? 'Lesson passed!' : 'Not quite.'} Target: {activeLesson.passCriteria.minWpm} WPM at {activeLesson.passCriteria.minAccuracy}% accuracy
+                      </p>
+                    )}
                   </div>
-                  {aiAdvice && (
-                    <div className="bg-slate-100 dark:bg-slate-700 p-4 rounded-lg max-w-md">
-                      <div className="flex items-center gap-2 mb-1 text-neon-purple text-sm font-bold uppercase">
-                        <SparklesIcon className="w-4 h-4" /> AI Coach
-                      </div>
-                      <p className="italic text-gray-700 dark:text-gray-300 text-sm">"{aiAdvice}"</p>
-                    </div>
-                  )}
                 </div>
-                <div className="mt-6 flex justify-end">
+                {coachReport && <CoachPanel report={coachReport} onLaunchDrill={launchDrill} />}
+                <div className="mt-6 flex justify-end gap-3">
+                   {lastSessionId && (
+                     <button 
+                       onClick={() => handleOpenReplay(lastSessionId)}
+                       className="px-6 py-2 bg-slate-200 dark:bg-slate-700 font-bold rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 transition"
+                     >
+                       Watch Replay
+                     </button>
+                   )}
                    <button 
-                     onClick={() => { resetSession(); if(mode === GameMode.ZEN) handleModeChange(GameMode.ZEN); }}
+                     onClick={handleNextLesson}
                      className="px-6 py-2 bg-neon-blue text-black font-bold rounded-lg hover:bg-opacity-80 transition"
                    >
-                     Next Lesson
+                     {mode === GameMode.CODE ? 'Type Again' : mode === GameMode.GAME_RACER ? 'New Race' : mode === GameMode.MULTIPLAYER ? 'Back to Lobby' : mode === GameMode.DAILY ? 'Back to Calendar' : mode === GameMode.REVIEW ? 'Back to Deck' : mode === GameMode.BOOK ? (openBook && openBook.meta.bookmark >= openBook.meta.chunkCount ? 'Back to Library' : 'Next Passage') : activeLesson && lessonPassed === false ? 'Retry Lesson' : 'Next Lesson'}
                    </button>
                 </div>
               </div>
             )}
 
+            {openBook && mode === GameMode.BOOK && (
+              <div className="w-full max-w-4xl mb-4 flex flex-col gap-2 text-sm">
+                <div className="flex justify-between items-center">
+                  <button
+                    onClick={() => { setOpenBook(null); resetSession(); }}
+                    className="font-bold text-gray-400 hover:text-neon-blue transition-colors"
+                    title="Back to library"
+                  >
+                    <span className="uppercase tracking-wider text-xs mr-2">Library</span>
+                    <span className="text-gray-900 dark:text-gray-100">{openBook.meta.title}</span>
+                  </button>
+                  <span className="flex items-center gap-2 font-mono text-gray-400">
+                    <button
+                      onClick={() => showBookChunk(openBook.meta, openBook.chunks, Math.max(0, openBook.meta.bookmark - 1))}
+                      disabled={openBook.meta.bookmark === 0 || (Boolean(startTime) && !isFinished)}
+                      className="p-1 hover:text-neon-blue disabled:opacity-30"
+                      title="Previous passage"
+                    >
+                      <ChevronLeftIcon className="w-4 h-4" />
+                    </button>
+                    passage {Math.min(openBook.meta.bookmark + 1, openBook.meta.chunkCount)} of {openBook.meta.chunkCount}
+                    <button
+                      onClick={() => showBookChunk(openBook.meta, openBook.chunks, openBook.meta.bookmark + 1)}
+                      disabled={openBook.meta.bookmark >= openBook.meta.chunkCount - 1 || (Boolean(startTime) && !isFinished)}
+                      className="p-1 hover:text-neon-blue disabled:opacity-30"
+                      title="Skip this passage"
+                    >
+                      <ChevronRightIcon className="w-4 h-4" />
+                    </button>
+                  </span>
+                </div>
+                <div className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                  <div className="h-full bg-neon-blue transition-all" style={{ width: `${(openBook.meta.bookmark / openBook.meta.chunkCount) * 100}%` }}></div>
+                </div>
+              </div>
+            )}
+
+            {activeLesson && (
+              <div className="w-full max-w-4xl mb-4 flex justify-between items-baseline text-sm">
+                <span className="font-bold">
+                  <span className="text-gray-400 uppercase tracking-wider text-xs mr-2">{activeLesson.unit}</span>
+                  {activeLesson.title}
+                </span>
+                {activeLesson.passCriteria && (
+                  <span className="font-mono text-gray-400">
+                    pass: {activeLesson.passCriteria.minWpm} wpm / {activeLesson.passCriteria.minAccuracy}%
+                  </span>
+                )}
+              </div>
+            )}
+
             {/* Typing Area */}
             <TypingArea 
               fullText={text} 
               userInput={userInput} 
               isFocused={true} // Simplified focus for demo
+              ghostIndex={ghostIndex}
+              highlight={highlight}
+              blind={blind}
+              rejectedIndex={rejectedIndex}
+              opponents={opponentCarets}
+              composition={composition}
               onBlur={() => {}}
               onFocus={() => {}}
             />
+            <TextInputCapture
+              active={typingActive}
+              onCommit={typed => typingActive && commitText(typed, false, false)}
+              onCompositionUpdate={setComposition}
+            />
 
             {/* Virtual Keyboard */}
             <div className="mt-12 w-full max-w-5xl overflow-x-auto">
               <VirtualKeyboard 
-                activeKey={text[userInput.length]} 
+                activeKey={textGraphemes[graphemeCount(userInput)]} 
                 keyStats={keyStats}
+                layout={layout}
+                showFingers={settings.showFingerGuide}
               />
             </div>
           </>
         )}
 
       </main>
+
+      <Toasts toasts={toasts} onDismiss={(id) => setToasts(prev => prev.filter(t => t.id !== id))} />
     </div>
   );
 };
 
 // UI Sub-components
 
+const RainStat = ({ label, value }: any) => (
+  <div className="flex flex-col">
+    <span className="text-xs font-bold text-gray-400 tracking-wider">{label}</span>
+    <span className="text-2xl font-bold text-neon-pink">{value}</span>
+  </div>
+);
+
 const MenuButton = ({ active, onClick, label, icon }: any) => (
   <button 
     onClick={onClick}
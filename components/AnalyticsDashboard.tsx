@@ -0,0 +1,403 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FingerStats, GameMode, KeyboardLayout, KeyStats, NgramStats, SessionRecord, ShiftStats } from '../types';
+import { listReplayIds } from '../services/replayService';
+import { FINGER_COLORS, FINGER_LABELS, FINGERS, summarizeHands } from '../services/fingerMap';
+import { rankNgrams, RankedNgram } from '../services/ngramService';
+import VirtualKeyboard from './VirtualKeyboard';
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, PlayIcon } from '@heroicons/react/24/solid';
+
+interface AnalyticsDashboardProps {
+  sessions: SessionRecord[];
+  keyStats: Record<string, KeyStats>;
+  fingerStats: Record<string, FingerStats>;
+  shiftStats: ShiftStats;
+  ngramStats: Record<string, NgramStats>;
+  layout: KeyboardLayout;
+  onClear: () => void;
+  onReplay: (sessionId: string) => void;
+  onImportReplay: (file: File) => void;
+  onExportData: (kind: DataExportKind) => void;
+  onImportData: (file: File, merge: boolean) => void;
+}
+
+export type DataExportKind = 'archive' | 'sessions' | 'keys';
+
+const TYPING_MODES = [GameMode.LESSON, GameMode.ZEN, GameMode.TIMED, GameMode.CODE, GameMode.BOOK, GameMode.REVIEW, GameMode.DAILY, GameMode.GAME_RACER, GameMode.MULTIPLAYER];
+
+const MODE_LABELS: Record<string, string> = {
+  [GameMode.LESSON]: 'Lessons',
+  [GameMode.ZEN]: 'Zen Mode',
+  [GameMode.TIMED]: 'Timed Test',
+  [GameMode.CODE]: 'Code',
+  [GameMode.BOOK]: 'Book Mode',
+  [GameMode.REVIEW]: 'Review',
+  [GameMode.DAILY]: 'Daily Challenge',
+  [GameMode.GAME_RAIN]: 'Neon Rain',
+  [GameMode.GAME_RACER]: 'Typing Racer',
+  [GameMode.MULTIPLAYER]: 'LAN Race',
+};
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+
+// Monday-based week start, used to bucket sessions for week-over-week comparison
+const weekStart = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const day = (date.getDay() + 6) % 7;
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - day);
+  return date.getTime();
+};
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ sessions, keyStats, fingerStats, shiftStats, ngramStats, layout, onClear, onReplay, onImportReplay, onExportData, onImportData }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dataInputRef = useRef<HTMLInputElement>(null);
+  const [mergeImport, setMergeImport] = useState(true);
+  const replayIds = useMemo(() => new Set(listReplayIds()), [sessions]);
+
+  const typingSessions = useMemo(
+    () => sessions.filter(s => TYPING_MODES.includes(s.mode)),
+    [sessions]
+  );
+
+  const bests = useMemo(() => ({
+    wpm: Math.max(0, ...typingSessions.map(s => s.stats.wpm)),
+    accuracy: Math.max(0, ...typingSessions.map(s => s.stats.accuracy)),
+    rainScore: Math.max(0, ...sessions.filter(s => s.mode === GameMode.GAME_RAIN).map(s => s.score || 0)),
+  }), [sessions, typingSessions]);
+
+  const modeBreakdown = useMemo(() => {
+    return Object.keys(MODE_LABELS).map(mode => {
+      const runs = sessions.filter(s => s.mode === mode);
+      return {
+        mode,
+        count: runs.length,
+        avgWpm: average(runs.map(s => s.stats.wpm)),
+        avgAccuracy: average(runs.map(s => s.stats.accuracy)),
+        bestScore: Math.max(0, ...runs.map(s => s.score || 0)),
+      };
+    });
+  }, [sessions]);
+
+  const weekly = useMemo(() => {
+    const buckets = new Map<number, SessionRecord[]>();
+    typingSessions.forEach(s => {
+      const key = weekStart(s.timestamp);
+      buckets.set(key, [...(buckets.get(key) || []), s]);
+    });
+    return Array.from(buckets.entries())
+      .sort(([a], [b]) => b - a)
+      .slice(0, 8)
+      .map(([week, runs]) => ({
+        week,
+        count: runs.length,
+        avgWpm: average(runs.map(s => s.stats.wpm)),
+        avgAccuracy: average(runs.map(s => s.stats.accuracy)),
+      }));
+  }, [typingSessions]);
+
+  const importButton = (
+    <>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImportReplay(file);
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="flex items-center gap-2 px-4 py-2 bg-slate-200 dark:bg-slate-800 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors text-sm font-bold"
+      >
+        <ArrowUpTrayIcon className="w-4 h-4" /> Import Replay
+      </button>
+    </>
+  );
+
+  const dataPanel = (
+    <Panel title="Your Data">
+      <div className="flex flex-wrap items-center gap-3">
+        <DataButton onClick={() => onExportData('archive')} icon={<ArrowDownTrayIcon className="w-4 h-4" />} label="Export All (JSON)" />
+        <DataButton onClick={() => onExportData('sessions')} icon={<ArrowDownTrayIcon className="w-4 h-4" />} label="Sessions CSV" />
+        <DataButton onClick={() => onExportData('keys')} icon={<ArrowDownTrayIcon className="w-4 h-4" />} label="Keys CSV" />
+        <span className="flex-1"></span>
+        <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400" title="Keep what is here and add the imported sessions and stats; otherwise the import replaces everything">
+          <input
+            type="checkbox"
+            checked={mergeImport}
+            onChange={(e) => setMergeImport(e.target.checked)}
+            className="accent-neon-blue"
+          />
+          Merge with this browser
+        </label>
+        <input
+          ref={dataInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportData(file, mergeImport);
+            e.target.value = '';
+          }}
+        />
+        <DataButton onClick={() => dataInputRef.current?.click()} icon={<ArrowUpTrayIcon className="w-4 h-4" />} label="Import Data" />
+      </div>
+    </Panel>
+  );
+
+  if (sessions.length === 0) {
+    return (
+      <div className="w-full max-w-4xl flex flex-col gap-8">
+        <div className="p-8 text-center rounded-2xl bg-white dark:bg-dark-surface shadow-lg">
+          <h2 className="text-2xl font-bold mb-2">No sessions yet</h2>
+          <p className="text-gray-500 dark:text-gray-400 mb-6">Finish a lesson, a Zen run or a Neon Rain game, or import data from another browser.</p>
+          <div className="flex justify-center">{importButton}</div>
+        </div>
+        {dataPanel}
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl flex flex-col gap-8">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <SummaryCard label="SESSIONS" value={sessions.length} color="text-neon-purple" />
+        <SummaryCard label="BEST WPM" value={bests.wpm} color="text-neon-green" />
+        <SummaryCard label="BEST ACCURACY" value={`${bests.accuracy}%`} color="text-neon-blue" />
+        <SummaryCard label="BEST RAIN SCORE" value={bests.rainScore} color="text-neon-pink" />
+      </div>
+
+      <Panel title="Trend (last 30 sessions)">
+        <TrendChart sessions={typingSessions.slice(-30)} />
+      </Panel>
+
+      <div className="grid md:grid-cols-2 gap-8">
+        <Panel title="By Mode">
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-400 text-xs tracking-wider">
+              <tr><th className="pb-2">MODE</th><th>RUNS</th><th>AVG WPM</th><th>AVG ACC</th><th>BEST SCORE</th></tr>
+            </thead>
+            <tbody className="font-mono">
+              {modeBreakdown.map(row => (
+                <tr key={row.mode} className="border-t border-gray-200 dark:border-slate-700">
+                  <td className="py-2 font-sans">{MODE_LABELS[row.mode]}</td>
+                  <td>{row.count}</td>
+                  <td>{row.mode === GameMode.GAME_RAIN ? '-' : row.avgWpm}</td>
+                  <td>{row.mode === GameMode.GAME_RAIN ? '-' : `${row.avgAccuracy}%`}</td>
+                  <td>{row.mode === GameMode.GAME_RAIN ? row.bestScore : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Panel>
+
+        <Panel title="Week over Week">
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-400 text-xs tracking-wider">
+              <tr><th className="pb-2">WEEK OF</th><th>RUNS</th><th>AVG WPM</th><th>AVG ACC</th></tr>
+            </thead>
+            <tbody className="font-mono">
+              {weekly.map(row => (
+                <tr key={row.week} className="border-t border-gray-200 dark:border-slate-700">
+                  <td className="py-2 font-sans">{new Date(row.week).toLocaleDateString()}</td>
+                  <td>{row.count}</td>
+                  <td>{row.avgWpm}</td>
+                  <td>{row.avgAccuracy}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Panel>
+      </div>
+
+      <Panel title="Recent Sessions">
+        <div className="flex flex-col gap-1">
+          {sessions.slice(-10).reverse().map(session => (
+            <div key={session.id} className="flex items-center gap-4 py-2 border-t border-gray-200 dark:border-slate-700 text-sm first:border-t-0">
+              <span className="w-40 text-gray-500 dark:text-gray-400">{new Date(session.timestamp).toLocaleString()}</span>
+              <span className="w-24">{MODE_LABELS[session.mode]}</span>
+              <span className="font-mono flex-1">
+                {session.mode === GameMode.GAME_RAIN
+                  ? `${session.score || 0} pts`
+                  : `${session.stats.wpm} wpm / ${session.stats.accuracy}%`}
+              </span>
+              {replayIds.has(session.id) && (
+                <button
+                  onClick={() => onReplay(session.id)}
+                  className="flex items-center gap-1 text-neon-blue font-bold hover:underline"
+                >
+                  <PlayIcon className="w-4 h-4" /> Replay
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end mt-4">{importButton}</div>
+      </Panel>
+
+      <div className="grid md:grid-cols-2 gap-8">
+        <Panel title="Slowest Transitions">
+          <NgramTable rows={rankNgrams(ngramStats, 'latency')} />
+        </Panel>
+        <Panel title="Most Error-Prone Transitions">
+          <NgramTable rows={rankNgrams(ngramStats, 'errors')} />
+        </Panel>
+      </div>
+
+      <Panel title="Fingers and Hands">
+        <FingerBreakdown fingerStats={fingerStats} shiftStats={shiftStats} />
+      </Panel>
+
+      <Panel title="Cumulative Key Heatmap">
+        <div className="overflow-x-auto">
+          <VirtualKeyboard activeKey={null} keyStats={keyStats} layout={layout} />
+        </div>
+      </Panel>
+
+      {dataPanel}
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => { if (window.confirm('Delete all saved sessions and key stats?')) onClear(); }}
+          className="px-4 py-2 text-sm font-bold text-red-500 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+        >
+          Clear History
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Simple dual-series SVG line chart; WPM is scaled to the best run, accuracy to 0-100
+const TrendChart = ({ sessions }: { sessions: SessionRecord[] }) => {
+  const width = 800;
+  const height = 200;
+
+  if (sessions.length < 2) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Complete at least two typing sessions to see a trend.</p>;
+  }
+
+  const maxWpm = Math.max(10, ...sessions.map(s => s.stats.wpm));
+  const x = (i: number) => (i / (sessions.length - 1)) * width;
+  const toPoints = (values: number[], max: number) =>
+    values.map((v, i) => `${x(i)},${height - (v / max) * height}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-48 overflow-visible">
+        <polyline fill="none" stroke="#0aff00" strokeWidth="3" points={toPoints(sessions.map(s => s.stats.wpm), maxWpm)} />
+        <polyline fill="none" stroke="#00f3ff" strokeWidth="2" strokeDasharray="6 4" points={toPoints(sessions.map(s => s.stats.accuracy), 100)} />
+      </svg>
+      <div className="flex gap-6 mt-2 text-xs font-bold tracking-wider">
+        <span className="text-neon-green">WPM (max {maxWpm})</span>
+        <span className="text-neon-blue">ACCURACY %</span>
+      </div>
+    </div>
+  );
+};
+
+const NgramTable = ({ rows }: { rows: RankedNgram[] }) => {
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Not enough data yet.</p>;
+  }
+  return (
+    <table className="w-full text-sm">
+      <thead className="text-left text-gray-400 text-xs tracking-wider">
+        <tr><th className="pb-2">SEQUENCE</th><th>SAMPLES</th><th>MS / KEY</th><th>ERROR RATE</th></tr>
+      </thead>
+      <tbody className="font-mono">
+        {rows.map(row => (
+          <tr key={row.ngram} className="border-t border-gray-200 dark:border-slate-700">
+            <td className="py-2 whitespace-pre">"{row.ngram}"</td>
+            <td>{row.samples}</td>
+            <td>{row.msPerKey}</td>
+            <td>{row.errorRate}%</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const FingerBreakdown = ({ fingerStats, shiftStats }: { fingerStats: Record<string, FingerStats>; shiftStats: ShiftStats }) => {
+  const grandTotal = Object.values(fingerStats).reduce((sum, s) => sum + s.total, 0);
+  if (grandTotal === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No finger data yet.</p>;
+  }
+  const hands = summarizeHands(fingerStats);
+
+  return (
+    <div className="flex flex-col gap-6">
+      <table className="w-full text-sm">
+        <thead className="text-left text-gray-400 text-xs tracking-wider">
+          <tr><th className="pb-2">FINGER</th><th>STROKES</th><th>LOAD</th><th>ERROR RATE</th><th>AVG LATENCY</th></tr>
+        </thead>
+        <tbody className="font-mono">
+          {FINGERS.map(finger => {
+            const stats = fingerStats[finger];
+            const total = stats?.total || 0;
+            return (
+              <tr key={finger} className="border-t border-gray-200 dark:border-slate-700">
+                <td className="py-2 font-sans">
+                  <span className={`inline-block w-3 h-3 rounded-full mr-2 ${FINGER_COLORS[finger]}`}></span>
+                  {FINGER_LABELS[finger]}
+                </td>
+                <td>{total}</td>
+                <td>{Math.round((total / grandTotal) * 100)}%</td>
+                <td>{total > 0 ? `${Math.round((stats.errors / total) * 100)}%` : '-'}</td>
+                <td>{stats?.latencySamples ? `${Math.round(stats.latencyTotal / stats.latencySamples)}ms` : '-'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        {hands.map(hand => (
+          <div key={hand.hand} className="p-3 rounded-lg bg-slate-100 dark:bg-slate-800">
+            <span className="block text-xs font-bold text-gray-400 tracking-wider uppercase mb-1">{hand.hand} hand</span>
+            <span className="font-mono">
+              {hand.share}% load · {hand.total > 0 ? Math.round((hand.errors / hand.total) * 100) : 0}% err · {hand.avgLatency}ms
+            </span>
+          </div>
+        ))}
+        <div className="p-3 rounded-lg bg-slate-100 dark:bg-slate-800">
+          <span className="block text-xs font-bold text-gray-400 tracking-wider uppercase mb-1">Opposite-hand Shift</span>
+          <span className="font-mono">
+            {shiftStats.total > 0 ? `${Math.round((shiftStats.oppositeHand / shiftStats.total) * 100)}% of ${shiftStats.total}` : '-'}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Panel = ({ title, children }: any) => (
+  <div className="p-6 rounded-2xl bg-white dark:bg-dark-surface shadow-lg">
+    <h3 className="text-xs font-bold text-gray-400 tracking-wider mb-4 uppercase">{title}</h3>
+    {children}
+  </div>
+);
+
+const DataButton = ({ onClick, icon, label }: any) => (
+  <button
+    onClick={onClick}
+    className="flex items-center gap-2 px-4 py-2 bg-slate-200 dark:bg-slate-800 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors text-sm font-bold"
+  >
+    {icon} {label}
+  </button>
+);
+
+const SummaryCard = ({ label, value, color }: any) => (
+  <div className="p-4 rounded-xl bg-white dark:bg-dark-surface shadow">
+    <span className="block text-xs font-bold text-gray-400 tracking-wider mb-1">{label}</span>
+    <span className={`text-3xl font-mono font-bold ${color}`}>{value}</span>
+  </div>
+);
+
+export default AnalyticsDashboard;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { PlayerProfile } from '../types';
+import { ACHIEVEMENTS, levelInfo } from '../services/achievements';
+
+interface BadgeWallProps {
+  profile: PlayerProfile;
+}
+
+const BadgeWall: React.FC<BadgeWallProps> = ({ profile }) => {
+  const { level, progress, needed } = levelInfo(profile.xp);
+  const earned = ACHIEVEMENTS.filter(a => profile.unlocked[a.id]).length;
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col gap-6">
+      <div className="bg-white dark:bg-dark-surface p-6 rounded-xl shadow-lg flex flex-col gap-4">
+        <div className="flex justify-between items-end">
+          <div>
+            <span className="text-xs font-bold text-gray-400 tracking-wider">LEVEL</span>
+            <div className="text-5xl font-mono font-bold text-neon-purple">{level}</div>
+          </div>
+          <div className="text-right font-mono text-sm text-gray-500 dark:text-gray-400">
+            <div>{profile.xp} XP total</div>
+            <div>{needed - progress} XP to level {level + 1}</div>
+          </div>
+        </div>
+        <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+          <div className="h-full bg-gradient-to-r from-neon-blue to-neon-purple" style={{ width: `${(progress / needed) * 100}%` }}></div>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-dark-surface p-6 rounded-xl shadow-lg">
+        <h3 className="text-xs font-bold text-gray-400 tracking-wider mb-4 uppercase">
+          Badges ({earned}/{ACHIEVEMENTS.length})
+        </h3>
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+          {ACHIEVEMENTS.map(achievement => {
+            const unlockedAt = profile.unlocked[achievement.id];
+            return (
+              <div
+                key={achievement.id}
+                title={unlockedAt ? `Earned ${new Date(unlockedAt).toLocaleDateString()}` : 'Not earned yet'}
+                className={`flex flex-col items-center gap-1 p-4 rounded-xl text-center border
+                  ${unlockedAt
+                    ? 'border-neon-purple bg-slate-50 dark:bg-slate-800 shadow-[0_0_12px_rgba(188,19,254,0.25)]'
+                    : 'border-transparent bg-slate-100 dark:bg-slate-900 opacity-40 grayscale'}`}
+              >
+                <span className="text-4xl">{achievement.icon}</span>
+                <span className="text-sm font-bold">{achievement.title}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">{achievement.description}</span>
+                <span className="text-xs font-mono text-neon-green">+{achievement.xp} XP</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BadgeWall;
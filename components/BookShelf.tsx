@@ -0,0 +1,120 @@
+import React, { useRef, useState } from 'react';
+import { BookMeta } from '../types';
+import { isMarkdownFile } from '../services/bookService';
+import { ArrowUpTrayIcon, BookOpenIcon, TrashIcon } from '@heroicons/react/24/solid';
+
+interface BookShelfProps {
+  books: BookMeta[];
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (title: string, content: string, markdown: boolean) => void;
+  onError: (message: string) => void;
+}
+
+const BookShelf: React.FC<BookShelfProps> = ({ books, onOpen, onDelete, onImport, onError }) => {
+  const [title, setTitle] = useState('');
+  const [draft, setDraft] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      onImport(file.name.replace(/\.[^.]+$/, ''), await file.text(), isMarkdownFile(file.name));
+    } catch (error) {
+      onError(`Could not read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handlePaste = () => {
+    onImport(title, draft, false);
+    setTitle('');
+    setDraft('');
+  };
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col gap-6">
+      <div className="bg-white dark:bg-dark-surface p-6 rounded-xl shadow-lg">
+        <h3 className="text-lg font-bold mb-4 text-gray-700 dark:text-gray-200">Library</h3>
+        {books.length === 0 ? (
+          <p className="text-sm text-gray-500">Import a document below to start typing through it.</p>
+        ) : (
+          <div className="flex flex-col gap-3">
+            {books.map(book => {
+              const percent = Math.round((book.bookmark / book.chunkCount) * 100);
+              return (
+                <div key={book.id} className="flex items-center gap-4">
+                  <button
+                    onClick={() => onOpen(book.id)}
+                    className="flex-1 flex flex-col gap-1 text-left group"
+                  >
+                    <span className="flex justify-between text-sm font-bold group-hover:text-neon-blue transition-colors">
+                      <span className="truncate">{book.title}</span>
+                      <span className="font-mono text-gray-400">
+                        {book.bookmark >= book.chunkCount ? 'finished' : `${book.bookmark}/${book.chunkCount}`}
+                      </span>
+                    </span>
+                    <span className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                      <span className="block h-full bg-neon-blue" style={{ width: `${percent}%` }}></span>
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => window.confirm(`Remove "${book.title}" and its bookmark?`) && onDelete(book.id)}
+                    className="p-1.5 text-gray-400 hover:text-red-500 transition-colors"
+                    title="Remove from library"
+                  >
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-dark-surface p-6 rounded-xl shadow-lg flex flex-col gap-3">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-gray-700 dark:text-gray-200">Import Text</h3>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 px-3 py-1.5 bg-slate-200 dark:bg-slate-800 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors text-sm font-bold"
+          >
+            <ArrowUpTrayIcon className="w-4 h-4" />
+            Open .txt / .md
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,.md,.markdown,text/plain,text/markdown"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Title"
+          className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900 text-sm outline-none focus:ring-2 focus:ring-neon-blue"
+        />
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Paste a chapter, an article or your team's docs..."
+          className="w-full h-40 p-3 rounded-lg bg-slate-100 dark:bg-slate-900 text-sm outline-none focus:ring-2 focus:ring-neon-blue"
+        />
+        <button
+          onClick={handlePaste}
+          disabled={!draft.trim()}
+          className="self-end flex items-center gap-2 px-4 py-1.5 rounded-lg bg-neon-blue text-black text-sm font-bold disabled:opacity-40"
+        >
+          <BookOpenIcon className="w-4 h-4" />
+          Add to Library
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BookShelf;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { CoachDrill, CoachReport, WeaknessKind } from '../types';
+import { PlayIcon, SparklesIcon } from '@heroicons/react/24/solid';
+
+interface CoachPanelProps {
+  report: CoachReport;
+  onLaunchDrill: (drill: CoachDrill) => void;
+}
+
+const KIND_LABELS: Record<WeaknessKind, string> = {
+  key: 'KEY',
+  ngram: 'N-GRAM',
+  finger: 'FINGER',
+  accuracy: 'ACCURACY',
+  speed: 'SPEED',
+  rhythm: 'RHYTHM',
+};
+
+const CoachPanel: React.FC<CoachPanelProps> = ({ report, onLaunchDrill }) => (
+  <div className="mt-6 bg-slate-100 dark:bg-slate-700 p-4 rounded-lg flex flex-col gap-4">
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-2 text-neon-purple text-sm font-bold uppercase">
+        <SparklesIcon className="w-4 h-4" /> {report.source === 'gemini' ? 'AI Coach' : 'Coach'}
+      </div>
+      {report.source === 'local' && <span className="text-xs text-gray-400">offline</span>}
+    </div>
+    <p className="text-sm text-gray-700 dark:text-gray-300">{report.diagnosis}</p>
+
+    {report.weaknesses.length > 0 && (
+      <ol className="flex flex-col gap-1 text-sm">
+        {report.weaknesses.map((weakness, i) => (
+          <li key={`${weakness.kind}-${weakness.target}`} className="flex items-baseline gap-2">
+            <span className="font-mono text-gray-400 w-4">{i + 1}.</span>
+            <span className="text-[10px] font-bold tracking-wider text-neon-blue w-16">{KIND_LABELS[weakness.kind]}</span>
+            <span className="font-mono font-bold whitespace-pre">{weakness.target}</span>
+            <span className="text-gray-500 dark:text-gray-400">{weakness.reason}</span>
+          </li>
+        ))}
+      </ol>
+    )}
+
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      {report.drills.map(drill => (
+        <div key={drill.title} className="bg-white dark:bg-slate-800 p-3 rounded-lg flex flex-col gap-2">
+          <span className="text-sm font-bold">{drill.title}</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400 flex-1">{drill.goal}</span>
+          <button
+            onClick={() => onLaunchDrill(drill)}
+            className="flex items-center justify-center gap-1 px-3 py-1 bg-neon-purple text-white rounded text-xs font-bold hover:bg-opacity-80 transition"
+          >
+            <PlayIcon className="w-3 h-3" /> Practice
+          </button>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default CoachPanel;
@@ -0,0 +1,130 @@
+import React, { useRef, useState } from 'react';
+import { CodeLanguage, CodeSnippet } from '../types';
+import { LANGUAGE_LABELS, languageForFile, snippetsFor } from '../services/codeSnippets';
+import { ArrowUpTrayIcon, ClipboardDocumentIcon } from '@heroicons/react/24/solid';
+
+interface CodePickerProps {
+  language: CodeLanguage;
+  activeSnippetId: string | null;
+  autoIndent: boolean;
+  disabled: boolean;
+  onLanguageChange: (language: CodeLanguage) => void;
+  onSelect: (snippet: CodeSnippet) => void;
+  onAutoIndentChange: (autoIndent: boolean) => void;
+  onError: (message: string) => void;
+}
+
+// Long files make for unreadable sessions; the first few screens are plenty
+const MAX_CUSTOM_CHARS = 4000;
+
+const CodePicker: React.FC<CodePickerProps> = ({ language, activeSnippetId, autoIndent, disabled, onLanguageChange, onSelect, onAutoIndentChange, onError }) => {
+  const [pasting, setPasting] = useState(false);
+  const [draft, setDraft] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadCustom = (code: string, customLanguage: CodeLanguage, title: string) => {
+    if (!code.trim()) return;
+    onSelect({ id: 'custom', language: customLanguage, title, code: code.slice(0, MAX_CUSTOM_CHARS) });
+    setPasting(false);
+    setDraft('');
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const detected = languageForFile(file.name);
+    try {
+      const code = await file.text();
+      if (detected) onLanguageChange(detected);
+      loadCustom(code, detected || language, file.name);
+    } catch (error) {
+      onError(`Could not read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mb-4 p-3 rounded-xl bg-white dark:bg-dark-surface shadow flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={language}
+          disabled={disabled}
+          onChange={(e) => onLanguageChange(e.target.value as CodeLanguage)}
+          className="px-3 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-sm font-bold outline-none focus:ring-2 focus:ring-neon-purple"
+        >
+          {(Object.keys(LANGUAGE_LABELS) as CodeLanguage[]).map(id => (
+            <option key={id} value={id}>{LANGUAGE_LABELS[id]}</option>
+          ))}
+        </select>
+
+        {snippetsFor(language).map(snippet => (
+          <button
+            key={snippet.id}
+            disabled={disabled}
+            onClick={() => onSelect(snippet)}
+            className={`px-3 py-1 rounded-lg text-sm font-bold transition-colors disabled:opacity-40
+              ${snippet.id === activeSnippetId ? 'bg-neon-purple text-white' : 'text-gray-500 dark:text-gray-400 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+          >
+            {snippet.title}
+          </button>
+        ))}
+
+        <div className="ml-auto flex items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400 cursor-pointer" title="Enter also types the next line's indentation">
+            <input
+              type="checkbox"
+              checked={autoIndent}
+              onChange={(e) => onAutoIndentChange(e.target.checked)}
+              className="accent-neon-purple"
+            />
+            Auto-indent
+          </label>
+          <button
+            disabled={disabled}
+            onClick={() => setPasting(p => !p)}
+            title="Paste your own code"
+            className={`p-1.5 rounded-lg transition-colors disabled:opacity-40 ${pasting || activeSnippetId === 'custom' ? 'text-neon-purple' : 'text-gray-400 hover:text-neon-purple'}`}
+          >
+            <ClipboardDocumentIcon className="w-5 h-5" />
+          </button>
+          <button
+            disabled={disabled}
+            onClick={() => fileInputRef.current?.click()}
+            title="Type a source file"
+            className="p-1.5 rounded-lg text-gray-400 hover:text-neon-purple transition-colors disabled:opacity-40"
+          >
+            <ArrowUpTrayIcon className="w-5 h-5" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {pasting && (
+        <div className="flex flex-col gap-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={`Paste ${LANGUAGE_LABELS[language]} code here...`}
+            spellCheck={false}
+            className="w-full h-40 p-3 rounded-lg bg-slate-100 dark:bg-slate-900 font-mono text-sm outline-none focus:ring-2 focus:ring-neon-purple"
+          />
+          <button
+            onClick={() => loadCustom(draft, language, 'Custom snippet')}
+            disabled={!draft.trim()}
+            className="self-end px-4 py-1.5 rounded-lg bg-neon-purple text-white text-sm font-bold disabled:opacity-40"
+          >
+            Type This
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodePicker;
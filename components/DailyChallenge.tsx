@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { DailyResult } from '../types';
+import { currentStreak, DailyChallenge as Challenge, dateKey, longestStreak, shareText } from '../services/dailyChallenge';
+import { BoltIcon, ChevronLeftIcon, ChevronRightIcon, ClipboardDocumentIcon, ComputerDesktopIcon } from '@heroicons/react/24/solid';
+
+interface DailyChallengeProps {
+  challenge: Challenge;
+  results: Record<string, DailyResult>;
+  onPlayPassage: () => void;
+  onPlayRain: () => void;
+}
+
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+
+// Monday-first grid of a month, padded with nulls before the 1st
+const monthGrid = (year: number, month: number): (Date | null)[] => {
+  const first = new Date(year, month, 1);
+  const days = new Date(year, month + 1, 0).getDate();
+  const padding = (first.getDay() + 6) % 7;
+  return [
+    ...Array.from({ length: padding }, () => null),
+    ...Array.from({ length: days }, (_, i) => new Date(year, month, i + 1)),
+  ];
+};
+
+const DailyChallenge: React.FC<DailyChallengeProps> = ({ challenge, results, onPlayPassage, onPlayRain }) => {
+  const [monthOffset, setMonthOffset] = useState(0);
+  const [copied, setCopied] = useState(false);
+  const today = challenge.date;
+  const result = results[today];
+  const streak = currentStreak(results, today);
+  const longest = useMemo(() => longestStreak(results), [results]);
+
+  const shown = new Date(new Date().getFullYear(), new Date().getMonth() + monthOffset, 1);
+  const grid = monthGrid(shown.getFullYear(), shown.getMonth());
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(shareText(challenge, result, streak));
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Failed to copy share text:", error);
+      window.prompt("Copy your result:", shareText(challenge, result, streak));
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col gap-6">
+      <div className="bg-white dark:bg-dark-surface p-6 rounded-xl shadow-lg flex flex-col md:flex-row gap-6 justify-between">
+        <div className="flex flex-col gap-2">
+          <span className="text-xs font-bold text-gray-400 tracking-wider">DAILY CHALLENGE #{challenge.number}</span>
+          <h3 className="text-2xl font-bold capitalize">{challenge.topic}</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Everyone gets the same passage and word rain today. Your first run of each counts.
+          </p>
+          <div className="flex gap-3 mt-2">
+            <button
+              onClick={onPlayPassage}
+              className="flex items-center gap-2 px-4 py-2 bg-neon-blue text-black rounded-lg font-bold text-sm hover:bg-opacity-80 transition"
+            >
+              <ComputerDesktopIcon className="w-4 h-4" />
+              {result?.typing ? 'Practice Passage' : 'Type Passage'}
+            </button>
+            <button
+              onClick={onPlayRain}
+              className="flex items-center gap-2 px-4 py-2 bg-neon-purple text-white rounded-lg font-bold text-sm hover:bg-opacity-80 transition"
+            >
+              <BoltIcon className="w-4 h-4" />
+              {result?.rain ? 'Practice Rain' : 'Play Rain'}
+            </button>
+          </div>
+        </div>
+        <div className="flex gap-8 items-start">
+          <div className="flex flex-col">
+            <span className="text-xs font-bold text-gray-400 tracking-wider">STREAK</span>
+            <span className="text-4xl font-mono font-bold text-neon-pink">{streak}</span>
+          </div>
+          <div className="flex flex-col">
+            <span className="text-xs font-bold text-gray-400 tracking-wider">LONGEST</span>
+            <span className="text-4xl font-mono font-bold text-neon-green">{longest}</span>
+          </div>
+        </div>
+      </div>
+
+      {result && (
+        <div className="bg-white dark:bg-dark-surface p-6 rounded-xl shadow-lg flex flex-col md:flex-row gap-4 justify-between items-start">
+          <pre className="font-mono text-sm whitespace-pre-wrap">{shareText(challenge, result, streak)}</pre>
+          <button
+            onClick={handleShare}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-200 dark:bg-slate-800 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors text-sm font-bold"
+          >
+            <ClipboardDocumentIcon className="w-4 h-4" />
+            {copied ? 'Copied!' : 'Share Result'}
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-dark-surface p-6 rounded-xl shadow-lg">
+        <div className="flex justify-between items-center mb-4">
+          <button onClick={() => setMonthOffset(monthOffset - 1)} className="p-1 text-gray-400 hover:text-neon-blue" title="Previous month">
+            <ChevronLeftIcon className="w-4 h-4" />
+          </button>
+          <span className="text-sm font-bold">
+            {shown.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          </span>
+          <button
+            onClick={() => setMonthOffset(monthOffset + 1)}
+            disabled={monthOffset >= 0}
+            className="p-1 text-gray-400 hover:text-neon-blue disabled:opacity-30"
+            title="Next month"
+          >
+            <ChevronRightIcon className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="grid grid-cols-7 gap-2 text-center text-xs">
+          {WEEKDAYS.map(day => (
+            <span key={day} className="font-bold text-gray-400">{day}</span>
+          ))}
+          {grid.map((date, i) => {
+            if (!date) return <span key={`pad-${i}`}></span>;
+            const key = dateKey(date);
+            const day = results[key];
+            const done = Boolean(day?.typing);
+            return (
+              <div
+                key={key}
+                title={day?.typing ? `${day.typing.wpm} wpm · ${day.typing.accuracy}%${day.rain ? ` · ${day.rain.score} pts` : ''}` : undefined}
+                className={`h-10 flex flex-col items-center justify-center rounded-lg font-mono
+                  ${done ? 'bg-neon-green/20 text-neon-green font-bold' : key > today ? 'text-gray-300 dark:text-slate-700' : 'bg-slate-100 dark:bg-slate-800 text-gray-500'}
+                  ${key === today ? 'ring-2 ring-neon-blue' : ''}`}
+              >
+                {date.getDate()}
+                {day?.typing && <span className="text-[9px] leading-none">{day.typing.wpm}</span>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DailyChallenge;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { LayoutId, LessonProgress } from '../types';
+import { CURRICULUM_UNITS, getCurriculum, isLessonUnlocked } from '../services/curriculum';
+import { CheckCircleIcon, LockClosedIcon } from '@heroicons/react/24/solid';
+
+interface LessonPickerProps {
+  activeLessonId: string | null;
+  progress: Record<string, LessonProgress>;
+  layoutId: LayoutId;
+  onSelect: (lessonId: string) => void;
+}
+
+const LessonPicker: React.FC<LessonPickerProps> = ({ activeLessonId, progress, layoutId, onSelect }) => {
+  const curriculum = getCurriculum(layoutId);
+
+  return (
+    <div className="flex flex-col gap-4 max-h-[50vh] overflow-y-auto pr-1">
+      {CURRICULUM_UNITS.map(unit => (
+        <div key={unit}>
+          <h3 className="text-xs font-bold text-gray-400 tracking-wider mb-2 uppercase">{unit}</h3>
+          <div className="flex flex-col gap-1">
+            {curriculum.filter(lesson => lesson.unit === unit).map(lesson => {
+              const unlocked = isLessonUnlocked(lesson.id, progress, layoutId);
+              const record = progress[lesson.id];
+              const isActive = lesson.id === activeLessonId;
+
+              return (
+                <button
+                  key={lesson.id}
+                  disabled={!unlocked}
+                  onClick={() => onSelect(lesson.id)}
+                  title={lesson.passCriteria ? `Pass: ${lesson.passCriteria.minWpm} WPM at ${lesson.passCriteria.minAccuracy}% accuracy` : undefined}
+                  className={`
+                    flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors
+                    ${isActive
+                      ? 'bg-slate-100 dark:bg-slate-800 text-neon-blue'
+                      : 'text-gray-600 dark:text-gray-300 hover:bg-slate-50 dark:hover:bg-slate-800/50'}
+                    ${unlocked ? '' : 'opacity-40 cursor-not-allowed'}
+                  `}
+                >
+                  <span className="flex items-center gap-2">
+                    {record?.passed
+                      ? <CheckCircleIcon className="w-4 h-4 text-neon-green" />
+                      : !unlocked && <LockClosedIcon className="w-4 h-4" />}
+                    {lesson.title}
+                  </span>
+                  {record && (
+                    <span className="font-mono text-xs text-gray-400">{record.bestWpm} wpm</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LessonPicker;
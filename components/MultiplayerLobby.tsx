@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { RaceResult, RoomState } from '../types';
+import { defaultServerUrl } from '../services/multiplayerClient';
+import { ArrowRightOnRectangleIcon, PlayIcon, PlusIcon, UserGroupIcon } from '@heroicons/react/24/solid';
+
+interface MultiplayerLobbyProps {
+  room: RoomState | null;
+  playerId: string | null;
+  results: RaceResult[] | null;
+  connecting: boolean;
+  playerName: string;
+  serverUrl: string;
+  onNameChange: (name: string) => void;
+  onServerUrlChange: (url: string) => void;
+  onCreate: () => void;
+  onJoin: (code: string) => void;
+  onStart: () => void;
+  onLeave: () => void;
+}
+
+const ORDINALS = ['1st', '2nd', '3rd'];
+const ordinal = (place: number) => ORDINALS[place - 1] || `${place}th`;
+
+const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({
+  room, playerId, results, connecting, playerName, serverUrl,
+  onNameChange, onServerUrlChange, onCreate, onJoin, onStart, onLeave,
+}) => {
+  const [code, setCode] = useState('');
+
+  if (!room) {
+    return (
+      <div className="w-full max-w-xl bg-white dark:bg-dark-surface p-6 rounded-xl shadow-lg flex flex-col gap-4">
+        <h3 className="text-lg font-bold text-gray-700 dark:text-gray-200">Race on your network</h3>
+        <label className="flex flex-col gap-1 text-xs font-bold text-gray-400 tracking-wider">
+          NAME
+          <input
+            value={playerName}
+            onChange={(e) => onNameChange(e.target.value)}
+            maxLength={16}
+            placeholder="Racer"
+            className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900 text-sm font-medium text-gray-700 dark:text-gray-200 outline-none focus:ring-2 focus:ring-neon-purple"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs font-bold text-gray-400 tracking-wider">
+          RACE SERVER
+          <input
+            value={serverUrl}
+            onChange={(e) => onServerUrlChange(e.target.value)}
+            placeholder={defaultServerUrl()}
+            className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900 text-sm font-mono text-gray-700 dark:text-gray-200 outline-none focus:ring-2 focus:ring-neon-purple"
+          />
+        </label>
+        <div className="flex flex-wrap gap-3 items-center">
+          <button
+            onClick={onCreate}
+            disabled={connecting}
+            className="flex items-center gap-2 px-4 py-2 bg-neon-purple text-white rounded-lg font-bold text-sm hover:bg-opacity-80 transition disabled:opacity-40"
+          >
+            <PlusIcon className="w-4 h-4" />
+            Create Room
+          </button>
+          <span className="text-sm text-gray-400">or</span>
+          <input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            maxLength={4}
+            placeholder="CODE"
+            className="w-24 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-900 text-sm font-mono font-bold tracking-widest text-center outline-none focus:ring-2 focus:ring-neon-purple"
+          />
+          <button
+            onClick={() => onJoin(code)}
+            disabled={connecting || code.trim().length < 4}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-200 dark:bg-slate-800 rounded-lg font-bold text-sm hover:bg-slate-300 dark:hover:bg-slate-700 transition disabled:opacity-40"
+          >
+            <UserGroupIcon className="w-4 h-4" />
+            Join
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          One person runs <span className="font-mono">npm run race-server</span>; everyone else points at that machine.
+        </p>
+      </div>
+    );
+  }
+
+  const isHost = room.hostId === playerId;
+
+  return (
+    <div className="w-full max-w-xl bg-white dark:bg-dark-surface p-6 rounded-xl shadow-lg flex flex-col gap-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <span className="text-xs font-bold text-gray-400 tracking-wider">ROOM CODE</span>
+          <div className="text-4xl font-mono font-bold tracking-widest text-neon-purple">{room.code}</div>
+        </div>
+        <button
+          onClick={onLeave}
+          className="flex items-center gap-2 text-sm font-bold text-gray-400 hover:text-red-500 transition-colors"
+        >
+          <ArrowRightOnRectangleIcon className="w-4 h-4" />
+          Leave
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {(results || room.players).map(entry => {
+          const result = results ? (entry as RaceResult) : null;
+          return (
+            <div key={entry.id} className="flex items-center gap-3 text-sm">
+              <span className="w-3 h-3 rounded-full" style={{ backgroundColor: entry.color, boxShadow: `0 0 6px ${entry.color}` }}></span>
+              <span className={`flex-1 font-bold truncate ${entry.id === playerId ? 'text-neon-blue' : ''}`}>
+                {entry.name}{entry.id === room.hostId ? ' (host)' : ''}
+              </span>
+              {result && (
+                <span className="font-mono text-gray-500">
+                  {result.timeMs === null ? 'DNF' : `${ordinal(result.place)} · ${result.wpm} wpm · ${result.accuracy}%`}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {isHost ? (
+        <button
+          onClick={onStart}
+          disabled={room.players.length < 2 || room.status === 'countdown' || room.status === 'racing'}
+          title={room.players.length < 2 ? 'Waiting for someone to join' : undefined}
+          className="self-end flex items-center gap-2 px-4 py-2 bg-neon-purple text-white rounded-lg font-bold text-sm hover:bg-opacity-80 transition disabled:opacity-40"
+        >
+          <PlayIcon className="w-4 h-4" />
+          {results ? 'Race Again' : 'Start Race'}
+        </button>
+      ) : (
+        <p className="self-end text-sm text-gray-400">
+          {room.status === 'racing' ? 'Race in progress...' : 'Waiting for the host to start...'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MultiplayerLobby;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { FlagIcon } from '@heroicons/react/24/solid';
+
+export interface RaceLane {
+  id: string;
+  name: string;
+  color: string;
+  progress: number; // 0 to 1
+  place: number | null; // set once the lane has crossed the line
+  isPlayer?: boolean;
+}
+
+interface RaceTrackProps {
+  lanes: RaceLane[];
+  countdown: number | null;
+}
+
+const ORDINALS = ['1st', '2nd', '3rd'];
+const ordinal = (place: number) => ORDINALS[place - 1] || `${place}th`;
+
+const RaceTrack: React.FC<RaceTrackProps> = ({ lanes, countdown }) => (
+  <div className="relative w-full max-w-4xl mb-6 p-4 rounded-xl bg-slate-900 border-2 border-neon-purple shadow-[0_0_20px_rgba(188,19,254,0.2)]">
+    <div className="flex flex-col gap-2">
+      {lanes.map(lane => (
+        <div key={lane.id} className="flex items-center gap-3">
+          <span className={`w-20 text-xs font-mono font-bold truncate ${lane.isPlayer ? 'text-white' : 'text-slate-400'}`}>
+            {lane.name}
+          </span>
+          <div className="relative flex-1 h-8 border-b border-dashed border-slate-700">
+            <div
+              className="absolute top-1 h-6 w-10 -ml-10 rounded-md transition-[left] duration-100 ease-linear"
+              style={{
+                left: `${Math.min(1, lane.progress) * 100}%`,
+                backgroundColor: lane.color,
+                boxShadow: `0 0 ${lane.isPlayer ? 16 : 8}px ${lane.color}`,
+              }}
+            ></div>
+          </div>
+          <FlagIcon className="w-4 h-4 text-slate-500" />
+          <span className="w-10 text-right text-sm font-mono font-bold text-neon-green">
+            {lane.place !== null ? ordinal(lane.place) : ''}
+          </span>
+        </div>
+      ))}
+    </div>
+
+    {countdown !== null && (
+      <div className="absolute inset-0 flex items-center justify-center bg-slate-900/70 rounded-xl">
+        <span className="text-6xl font-bold text-neon-pink animate-pulse">{countdown > 0 ? countdown : 'GO!'}</span>
+      </div>
+    )}
+  </div>
+);
+
+export default RaceTrack;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { RACER_PROFILES } from '../services/racerService';
+import { PlayIcon } from '@heroicons/react/24/solid';
+
+interface RacerSetupProps {
+  opponents: string[];
+  disabled: boolean;
+  onChange: (opponents: string[]) => void;
+  onStart: () => void;
+}
+
+const RacerSetup: React.FC<RacerSetupProps> = ({ opponents, disabled, onChange, onStart }) => (
+  <div className="w-full max-w-4xl mb-4 flex flex-wrap justify-center items-center gap-3 p-3 rounded-xl bg-white dark:bg-dark-surface shadow">
+    {opponents.map((profileId, slot) => (
+      <select
+        key={slot}
+        value={profileId}
+        disabled={disabled}
+        onChange={(e) => onChange(opponents.map((id, i) => (i === slot ? e.target.value : id)))}
+        className="px-3 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-sm font-bold outline-none focus:ring-2 focus:ring-neon-purple"
+      >
+        {RACER_PROFILES.map(p => (
+          <option key={p.id} value={p.id}>{p.name} ({p.wpm} wpm)</option>
+        ))}
+      </select>
+    ))}
+    <button
+      onClick={onStart}
+      disabled={disabled}
+      className="flex items-center gap-2 px-4 py-1.5 bg-neon-purple text-white rounded-lg font-bold text-sm hover:bg-opacity-80 transition disabled:opacity-40"
+    >
+      <PlayIcon className="w-4 h-4" />
+      Start Race
+    </button>
+  </div>
+);
+
+export default RacerSetup;
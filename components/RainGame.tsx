@@ -1,183 +1,183 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { WordEntity } from '../types';
-import { generateGameWords } from '../services/geminiService';
+import React, { useEffect, useRef, useState } from 'react';
+import { ContentProvider, LanguageId, PowerUp } from '../types';
+import { POWER_UP_LABELS, RainEngine, RainSnapshot, RainSummary } from '../services/rainEngine';
+import { buildGameWords } from '../services/localContentService';
+import { isSingleGrapheme, normalizeTyped, splitGraphemes } from '../services/graphemes';
+import TextInputCapture from './TextInputCapture';
 
 interface RainGameProps {
-  onGameEnd: (score: number) => void;
+  provider: ContentProvider;
+  onGameEnd: (summary: RainSummary) => void;
+  wordPool?: string[]; // fixed pool, e.g. the daily challenge's, instead of asking the provider
+  seed?: number;
+  language?: LanguageId;
+  prepareWords?: (words: string[]) => string[]; // cleans provider words for the active layout
+  onProviderError?: (error: unknown) => void;
 }
 
-const RainGame: React.FC<RainGameProps> = ({ onGameEnd }) => {
-  const [words, setWords] = useState<WordEntity[]>([]);
-  const [currentInput, setCurrentInput] = useState('');
-  const [score, setScore] = useState(0);
-  const [lives, setLives] = useState(3);
-  const [level, setLevel] = useState(1);
-  const [loading, setLoading] = useState(true);
-  
-  const requestRef = useRef<number>();
-  const containerRef = useRef<HTMLDivElement>(null);
-  const lastSpawnTime = useRef<number>(0);
-  const spawnRate = useRef<number>(2000); // ms
-
-  // Load initial words
+// Fetched once per game; the engine draws every falling word from this pool
+const WORD_POOL_SIZE = 60;
+const MISTAKE_FLASH_MS = 250;
+
+const POWER_UP_STYLES: Record<PowerUp, { color: string; glyph: string }> = {
+  slow: { color: '#0aff00', glyph: '⏳' },
+  clear: { color: '#bc13fe', glyph: '✦' },
+  life: { color: '#ff00ff', glyph: '♥' },
+};
+
+const RainGame: React.FC<RainGameProps> = ({ provider, onGameEnd, wordPool, seed, language, prepareWords, onProviderError }) => {
+  const engineRef = useRef<RainEngine | null>(null);
+  const [snapshot, setSnapshot] = useState<RainSnapshot | null>(null);
+
+  // Load the word pool, then start the engine
   useEffect(() => {
+    let cancelled = false;
     const loadWords = async () => {
-      setLoading(true);
-      // Pre-fetch a batch
-      setLoading(false);
+      let pool: string[] = wordPool || [];
+      if (!wordPool) {
+        try {
+          const words = await provider.generateGameWords(WORD_POOL_SIZE, language);
+          pool = prepareWords ? prepareWords(words) : words;
+        } catch (error) {
+          if (onProviderError) onProviderError(error);
+          else console.error("Failed to load game words:", error);
+        }
+      }
+      if (cancelled) return;
+      const engine = new RainEngine(pool.length > 0 ? pool : buildGameWords(WORD_POOL_SIZE, Math.random, language), { seed });
+      engine.start();
+      engineRef.current = engine;
+      setSnapshot(engine.snapshot());
     };
     loadWords();
-  }, []);
+    return () => { cancelled = true; };
+  }, [provider, wordPool, seed, language]);
 
-  const spawnWord = async () => {
-    const newWords = await generateGameWords(1);
-    const wordText = newWords[0] || "code";
-    
-    setWords(prev => [
-      ...prev,
-      {
-        id: Date.now(),
-        text: wordText,
-        x: Math.random() * 80 + 5, // 5% to 85% width
-        y: -10, // Start above
-        speed: 0.2 + (level * 0.05),
-        typed: ''
-      }
-    ]);
-  };
-
-  const updateGame = useCallback((time: number) => {
-    if (lives <= 0) return;
-
-    if (time - lastSpawnTime.current > spawnRate.current) {
-      spawnWord();
-      lastSpawnTime.current = time;
-      // Increase difficulty slightly over time
-      if (spawnRate.current > 800) spawnRate.current -= 10;
-    }
-
-    setWords(prevWords => {
-      const nextWords: WordEntity[] = [];
-      let livesLost = 0;
-
-      prevWords.forEach(word => {
-        const nextY = word.y + word.speed;
-        if (nextY > 100) {
-          livesLost++;
-        } else {
-          nextWords.push({ ...word, y: nextY });
-        }
-      });
-
-      if (livesLost > 0) {
-        setLives(l => {
-            const newLives = l - livesLost;
-            if (newLives <= 0) onGameEnd(score);
-            return newLives;
-        });
-      }
-      return nextWords;
-    });
+  const ready = snapshot !== null;
 
-    requestRef.current = requestAnimationFrame(updateGame);
-  }, [lives, level, score, onGameEnd]);
+  // Drive the engine with real elapsed time; it decides how many fixed steps that is
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!ready || !engine) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      engine.advance(now - last);
+      last = now;
+      setSnapshot(engine.snapshot());
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [ready]);
 
+  // Hidden tabs pause instead of raining words on nobody
   useEffect(() => {
-    requestRef.current = requestAnimationFrame(updateGame);
-    return () => cancelAnimationFrame(requestRef.current!);
-  }, [updateGame]);
+    const handleVisibility = () => {
+      if (document.hidden) engineRef.current?.pause();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  // Text from an IME or a dead key, which never shows up as a single keydown
+  const typeText = (typed: string) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    splitGraphemes(normalizeTyped(typed)).forEach(char => engine.type(char));
+    setSnapshot(engine.snapshot());
+  };
 
-  // Input handling
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (lives <= 0) return;
-      
-      const char = e.key;
-      
-      // Ignore special keys
-      if (char.length > 1 && char !== 'Backspace') return;
-
-      if (char === 'Backspace') {
-          setCurrentInput(prev => prev.slice(0, -1));
-          return;
+      const engine = engineRef.current;
+      if (!engine || e.isComposing || e.keyCode === 229) return;
+      if (e.key === 'Escape') {
+        engine.togglePause();
+      } else if (e.key === 'Backspace') {
+        engine.backspace();
+      } else if (isSingleGrapheme(e.key)) {
+        if (!e.metaKey && !(e.ctrlKey && !e.altKey)) e.preventDefault();
+        engine.type(e.key);
       }
-
-      // Check against active words
-      setWords(prevWords => {
-        // Find if we are currently targeting a word (partially typed)
-        const targetIndex = prevWords.findIndex(w => w.text.startsWith(currentInput + char));
-        
-        if (targetIndex !== -1) {
-          const targetWord = prevWords[targetIndex];
-          const newTyped = currentInput + char;
-          
-          if (newTyped === targetWord.text) {
-            // Word completed!
-            setScore(s => s + targetWord.text.length * 10);
-            setCurrentInput('');
-            if (score > 0 && score % 100 === 0) setLevel(l => l + 1);
-            return prevWords.filter((_, i) => i !== targetIndex);
-          } else {
-            // Correct letter, update input state
-            setCurrentInput(newTyped);
-            return prevWords; // Visual update handled by rendering
-          }
-        }
-        
-        // Mistake - Reset input or flash screen (optional)
-        setCurrentInput(''); 
-        return prevWords;
-      });
+      setSnapshot(engine.snapshot());
     };
-
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [lives, currentInput, score]);
+  }, []);
 
-  if (lives <= 0) return null; // Logic handled by parent onGameEnd
+  const status = snapshot?.status;
+  useEffect(() => {
+    if (status === 'over') onGameEnd(engineRef.current!.snapshot().summary);
+  }, [status]);
+
+  if (!snapshot) {
+    return (
+      <div className="w-full h-[500px] flex items-center justify-center bg-slate-900 rounded-xl border-2 border-neon-blue text-neon-blue font-mono animate-pulse">
+        Loading words...
+      </div>
+    );
+  }
+
+  if (snapshot.status === 'over') return null; // Logic handled by parent onGameEnd
+
+  const { words, input, targetId, score, lives, level, combo, multiplier, slowMsLeft, lastMistakeMs, elapsedMs } = snapshot;
+  const flashMistake = lastMistakeMs !== null && elapsedMs - lastMistakeMs < MISTAKE_FLASH_MS;
 
   return (
-    <div 
-      ref={containerRef}
-      className="relative w-full h-[500px] bg-slate-900 overflow-hidden rounded-xl border-2 border-neon-blue shadow-[0_0_20px_rgba(0,243,255,0.2)]"
-    >
+    <div className="relative w-full h-[500px] bg-slate-900 overflow-hidden rounded-xl border-2 border-neon-blue shadow-[0_0_20px_rgba(0,243,255,0.2)]">
       {/* UI Overlay */}
       <div className="absolute top-4 left-4 z-20 flex gap-6 text-white font-mono text-lg font-bold">
         <div className="text-neon-green">Score: {score}</div>
         <div className="text-neon-pink">Lives: {'♥'.repeat(lives)}</div>
         <div className="text-neon-purple">Level: {level}</div>
+        {combo > 0 && (
+          <div className="text-neon-blue">Combo: {combo}{multiplier > 1 && <span className="text-neon-green"> x{multiplier}</span>}</div>
+        )}
+        {slowMsLeft > 0 && <div className="text-neon-green">⏳ {Math.ceil(slowMsLeft / 1000)}s</div>}
       </div>
+      <div className="absolute top-5 right-4 z-20 text-xs font-mono text-slate-500">Esc to pause</div>
+
+      <TextInputCapture active={snapshot.status === 'running'} onCommit={typeText} onCompositionUpdate={() => {}} />
 
       {/* Words */}
       {words.map(word => {
-        // Highlighting partial match
-        const isTarget = word.text.startsWith(currentInput) && currentInput.length > 0;
-        const matchedPart = isTarget ? currentInput : '';
-        const remainingPart = isTarget ? word.text.slice(currentInput.length) : word.text;
+        const isTarget = word.id === targetId;
+        const matchedPart = isTarget ? input : '';
+        const remainingPart = isTarget ? word.text.slice(input.length) : word.text;
+        const power = word.powerUp ? POWER_UP_STYLES[word.powerUp] : null;
 
         return (
           <div
             key={word.id}
-            className="absolute transform -translate-x-1/2 text-xl font-mono font-bold transition-all duration-75"
-            style={{ 
-              left: `${word.x}%`, 
+            className="absolute transform -translate-x-1/2 text-xl font-mono font-bold"
+            title={word.powerUp ? POWER_UP_LABELS[word.powerUp] : undefined}
+            style={{
+              left: `${word.x}%`,
               top: `${word.y}%`,
-              color: isTarget ? '#fff' : '#00f3ff',
-              textShadow: isTarget ? '0 0 10px #ff00ff' : 'none'
+              color: isTarget ? '#fff' : power ? power.color : '#00f3ff',
+              textShadow: isTarget ? '0 0 10px #ff00ff' : power ? `0 0 12px ${power.color}` : 'none'
             }}
           >
+            {power && <span className="mr-1">{power.glyph}</span>}
             <span className="text-neon-pink">{matchedPart}</span>
-            <span className="text-slate-300">{remainingPart}</span>
+            <span className={isTarget ? 'text-white underline decoration-neon-pink' : power ? '' : 'text-slate-300'}>{remainingPart}</span>
           </div>
         );
       })}
 
+      {snapshot.status === 'paused' && (
+        <div className="absolute inset-0 z-30 flex items-center justify-center bg-slate-900/80 text-2xl font-bold text-neon-blue">
+          Paused. Press Esc to resume.
+        </div>
+      )}
+
       {/* Input Display (Optional visual guide) */}
-      <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 text-white opacity-50 font-mono">
-        {currentInput}
+      <div className={`absolute bottom-4 left-1/2 transform -translate-x-1/2 font-mono ${flashMistake ? 'text-red-500 opacity-100' : 'text-white opacity-50'}`}>
+        {input || (flashMistake ? '✕' : '')}
       </div>
     </div>
   );
 };
 
-export default RainGame;
\ No newline at end of file
+export default RainGame;
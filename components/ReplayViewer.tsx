@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SessionReplay } from '../types';
+import { exportReplay, inputAt, replayDuration } from '../services/replayService';
+import { isDeletion } from '../services/inputPolicy';
+import TypingArea from './TypingArea';
+import { ArrowDownTrayIcon, FlagIcon, PauseIcon, PlayIcon, XMarkIcon } from '@heroicons/react/24/solid';
+
+interface ReplayViewerProps {
+  replay: SessionReplay;
+  onClose: () => void;
+  onRace?: () => void;
+}
+
+const SPEEDS = [1, 2, 4];
+const HESITATION_MS = 1000;
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onClose, onRace }) => {
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const frameRef = useRef<number>(0);
+
+  const duration = replayDuration(replay);
+
+  // Advance the playhead by real elapsed time scaled by the chosen speed
+  useEffect(() => {
+    if (!playing) return;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = (now - last) * speed;
+      last = now;
+      setPosition(prev => Math.min(prev + delta, duration));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameRef.current);
+  }, [playing, speed, duration]);
+
+  useEffect(() => {
+    if (position >= duration) setPlaying(false);
+  }, [position, duration]);
+
+  const markers = useMemo(() => replay.events.flatMap((event, i) => {
+    const kind = isDeletion(event)
+      ? 'backspace'
+      : !event.correct
+        ? 'error'
+        : i > 0 && event.t - replay.events[i - 1].t > HESITATION_MS ? 'pause' : null;
+    return kind ? [{ t: event.t, kind }] : [];
+  }), [replay]);
+
+  const userInput = inputAt(replay.events, position);
+
+  const togglePlay = () => {
+    if (!playing && position >= duration) setPosition(0);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col gap-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">Session Replay</h2>
+        <div className="flex gap-2">
+          {onRace && (
+            <button
+              onClick={onRace}
+              className="flex items-center gap-2 px-4 py-2 bg-neon-green text-black rounded-lg hover:bg-opacity-80 transition-colors text-sm font-bold"
+            >
+              <FlagIcon className="w-4 h-4" /> Race This Run
+            </button>
+          )}
+          <button
+            onClick={() => exportReplay(replay)}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-200 dark:bg-slate-800 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors text-sm font-bold"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" /> Export
+          </button>
+          <button
+            onClick={onClose}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-200 dark:bg-slate-800 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors text-sm font-bold"
+          >
+            <XMarkIcon className="w-4 h-4" /> Close
+          </button>
+        </div>
+      </div>
+
+      <TypingArea
+        fullText={replay.text}
+        userInput={userInput}
+        isFocused={true}
+        onBlur={() => {}}
+        onFocus={() => {}}
+      />
+
+      <div className="p-4 rounded-xl bg-white dark:bg-dark-surface shadow flex flex-col gap-3">
+        <div className="flex items-center gap-4">
+          <button onClick={togglePlay} className="p-2 rounded-full bg-neon-blue text-black hover:bg-opacity-80 transition">
+            {playing ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+          </button>
+          <div className="flex gap-1">
+            {SPEEDS.map(s => (
+              <button
+                key={s}
+                onClick={() => setSpeed(s)}
+                className={`px-3 py-1 rounded-lg text-sm font-bold font-mono ${speed === s ? 'bg-neon-purple text-white' : 'bg-slate-100 dark:bg-slate-800'}`}
+              >
+                {s}x
+              </button>
+            ))}
+          </div>
+          <span className="ml-auto font-mono text-sm text-gray-400">
+            {(position / 1000).toFixed(1)}s / {(duration / 1000).toFixed(1)}s
+          </span>
+        </div>
+
+        <div className="relative">
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            value={position}
+            onChange={(e) => { setPlaying(false); setPosition(Number(e.target.value)); }}
+            className="w-full accent-neon-pink"
+          />
+          <div className="relative h-3 mt-1">
+            {markers.map((m, i) => (
+              <span
+                key={i}
+                title={m.kind}
+                className={`absolute top-0 w-[2px] h-3 ${m.kind === 'error' ? 'bg-red-500' : m.kind === 'backspace' ? 'bg-orange-400' : 'bg-neon-blue'}`}
+                style={{ left: `${duration > 0 ? (m.t / duration) * 100 : 0}%` }}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="flex gap-6 text-xs font-bold tracking-wider">
+          <span className="text-red-500">ERROR</span>
+          <span className="text-orange-400">BACKSPACE</span>
+          <span className="text-neon-blue">HESITATION &gt; 1s</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
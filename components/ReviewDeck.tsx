@@ -0,0 +1,69 @@
+import React from 'react';
+import { WordCard } from '../types';
+import { PlayIcon } from '@heroicons/react/24/solid';
+
+interface ReviewDeckProps {
+  cards: Record<string, WordCard>;
+  due: WordCard[];
+  onStart: () => void;
+}
+
+const ReviewDeck: React.FC<ReviewDeckProps> = ({ cards, due, onStart }) => {
+  const all: WordCard[] = Object.values(cards);
+  const upcoming = all
+    .filter(c => !due.includes(c))
+    .sort((a, b) => a.due.localeCompare(b.due));
+  const troublesome = [...all]
+    .sort((a, b) => (b.errors + b.slow) / b.seen - (a.errors + a.slow) / a.seen)
+    .slice(0, 12);
+
+  return (
+    <div className="w-full max-w-4xl flex flex-col gap-6">
+      <div className="bg-white dark:bg-dark-surface p-6 rounded-xl shadow-lg flex justify-between items-center gap-4">
+        <div>
+          <span className="text-xs font-bold text-gray-400 tracking-wider">DUE TODAY</span>
+          <div className="text-4xl font-mono font-bold text-neon-pink">{due.length}</div>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {due.length > 0
+              ? 'Words you slipped on or slowed down for, back for another pass.'
+              : upcoming.length > 0
+                ? `Nothing due. Next review on ${upcoming[0].due}.`
+                : 'Type in any mode; words you stumble on will show up here.'}
+          </p>
+        </div>
+        <button
+          onClick={onStart}
+          disabled={due.length === 0}
+          className="flex items-center gap-2 px-4 py-2 bg-neon-pink text-white rounded-lg font-bold text-sm hover:bg-opacity-80 transition disabled:opacity-40"
+        >
+          <PlayIcon className="w-4 h-4" />
+          Start Review
+        </button>
+      </div>
+
+      {troublesome.length > 0 && (
+        <div className="bg-white dark:bg-dark-surface p-6 rounded-xl shadow-lg">
+          <h3 className="text-xs font-bold text-gray-400 tracking-wider mb-4 uppercase">Tracked Words ({all.length})</h3>
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-400 text-xs tracking-wider">
+              <tr><th className="pb-2">WORD</th><th>SEEN</th><th>SLIPS</th><th>SLOW</th><th>NEXT</th></tr>
+            </thead>
+            <tbody className="font-mono">
+              {troublesome.map(card => (
+                <tr key={card.word} className="border-t border-gray-200 dark:border-slate-700">
+                  <td className="py-2 font-bold">{card.word}</td>
+                  <td>{card.seen}</td>
+                  <td>{card.errors}</td>
+                  <td>{card.slow}</td>
+                  <td className={due.includes(card) ? 'text-neon-pink' : 'text-gray-400'}>{due.includes(card) ? 'due' : card.due}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewDeck;
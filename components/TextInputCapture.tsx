@@ -0,0 +1,77 @@
+import React, { useEffect, useRef } from 'react';
+
+interface TextInputCaptureProps {
+  active: boolean;
+  onCommit: (text: string) => void; // finished text from an IME, a dead-key sequence or a key the keydown handler could not read
+  onCompositionUpdate: (text: string) => void;
+}
+
+// Marks the capture field, so keydown handlers that leave form fields alone still listen to it
+export const CAPTURE_ATTRIBUTE = 'data-typing-capture';
+
+export const isCaptureTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && target.hasAttribute(CAPTURE_ATTRIBUTE);
+
+// IMEs and dead keys only deliver their characters to a focused editable element, so an
+// invisible textarea keeps focus while typing. Plain keys are still handled (and prevented)
+// on keydown; this catches what arrives through composition or input events instead.
+const TextInputCapture: React.FC<TextInputCaptureProps> = ({ active, onCommit, onCompositionUpdate }) => {
+  const fieldRef = useRef<HTMLTextAreaElement>(null);
+  const composingRef = useRef(false);
+
+  // Clicking the page or pressing a key brings focus back, unless another field is being edited
+  useEffect(() => {
+    if (!active) return;
+    const refocus = () => {
+      const focused = document.activeElement;
+      const editing = focused instanceof HTMLInputElement || focused instanceof HTMLTextAreaElement
+        || focused instanceof HTMLSelectElement || (focused instanceof HTMLElement && focused.isContentEditable);
+      if (!editing) fieldRef.current?.focus({ preventScroll: true });
+    };
+    refocus();
+    window.addEventListener('keydown', refocus, true);
+    window.addEventListener('pointerup', refocus);
+    return () => {
+      window.removeEventListener('keydown', refocus, true);
+      window.removeEventListener('pointerup', refocus);
+    };
+  }, [active]);
+
+  const clear = () => {
+    if (fieldRef.current) fieldRef.current.value = '';
+  };
+
+  const handleCompositionEnd = (e: React.CompositionEvent<HTMLTextAreaElement>) => {
+    composingRef.current = false;
+    onCompositionUpdate('');
+    if (e.data) onCommit(e.data);
+    clear();
+  };
+
+  const handleInput = (e: React.FormEvent<HTMLTextAreaElement>) => {
+    const event = e.nativeEvent as InputEvent;
+    if (composingRef.current || event.isComposing) return;
+    if (event.inputType === 'insertText' && event.data) onCommit(event.data);
+    clear();
+  };
+
+  return (
+    <textarea
+      ref={fieldRef}
+      {...{ [CAPTURE_ATTRIBUTE]: '' }}
+      aria-label="Typing input"
+      autoComplete="off"
+      autoCorrect="off"
+      autoCapitalize="off"
+      spellCheck={false}
+      tabIndex={-1}
+      className="fixed left-1/2 top-1/2 w-px h-px opacity-0 pointer-events-none resize-none"
+      onCompositionStart={() => { composingRef.current = true; }}
+      onCompositionUpdate={e => onCompositionUpdate(e.data)}
+      onCompositionEnd={handleCompositionEnd}
+      onInput={handleInput}
+    />
+  );
+};
+
+export default TextInputCapture;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { SessionMetrics, TimedTestConfig } from '../types';
+import { describeConfig } from '../services/timedTest';
+import { TrophyIcon } from '@heroicons/react/24/solid';
+
+interface TimedResultsProps {
+  config: TimedTestConfig;
+  metrics: SessionMetrics;
+  personalBest: number | null;
+  onRestart: () => void;
+}
+
+const TimedResults: React.FC<TimedResultsProps> = ({ config, metrics, personalBest, onRestart }) => {
+  const isNewBest = personalBest === null || metrics.netWpm > personalBest;
+
+  return (
+    <div className="w-full max-w-4xl mb-8 p-6 bg-white dark:bg-slate-800 rounded-xl border border-neon-green shadow-lg">
+      <div className="flex flex-wrap justify-between items-start gap-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">Test Complete</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{describeConfig(config)}</p>
+        </div>
+        <div className="flex gap-8">
+          <Metric label="NET WPM" value={metrics.netWpm} color="text-neon-green" />
+          <Metric label="RAW WPM" value={metrics.grossWpm} color="text-neon-purple" />
+          <Metric label="ACCURACY" value={`${metrics.accuracy}%`} color="text-neon-blue" />
+          <Metric label="CONSISTENCY" value={`${metrics.consistency}%`} color="text-neon-pink" />
+        </div>
+      </div>
+
+      <div className={`mt-4 flex items-center gap-2 text-sm font-bold ${isNewBest ? 'text-neon-green' : 'text-gray-500 dark:text-gray-400'}`}>
+        <TrophyIcon className="w-4 h-4" />
+        {isNewBest ? 'New personal best for this test!' : `Personal best: ${personalBest} WPM`}
+      </div>
+
+      <WpmChart series={metrics.series} />
+
+      <div className="mt-6 flex justify-end">
+        <button
+          onClick={onRestart}
+          className="px-6 py-2 bg-neon-blue text-black font-bold rounded-lg hover:bg-opacity-80 transition"
+        >
+          Next Test
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const WpmChart = ({ series }: { series: number[] }) => {
+  const width = 800;
+  const height = 160;
+  const max = Math.max(10, ...series);
+  const barWidth = width / series.length;
+
+  return (
+    <div className="mt-6">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-40">
+        {series.map((wpm, i) => {
+          const barHeight = (wpm / max) * height;
+          return (
+            <rect
+              key={i}
+              x={i * barWidth + 1}
+              y={height - barHeight}
+              width={Math.max(1, barWidth - 2)}
+              height={barHeight}
+              className="fill-neon-purple opacity-70"
+            >
+              <title>{`${i + 1}s: ${wpm} wpm`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <div className="flex justify-between text-xs font-mono text-gray-400 mt-1">
+        <span>1s</span>
+        <span>WPM per second (max {max})</span>
+        <span>{series.length}s</span>
+      </div>
+    </div>
+  );
+};
+
+const Metric = ({ label, value, color }: any) => (
+  <div className="flex flex-col">
+    <span className="text-xs font-bold text-gray-400 tracking-wider mb-1">{label}</span>
+    <span className={`text-3xl font-mono font-bold ${color}`}>{value}</span>
+  </div>
+);
+
+export default TimedResults;
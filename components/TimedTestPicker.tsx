@@ -0,0 +1,43 @@
+import React from 'react';
+import { TimedTestConfig } from '../types';
+import { TIME_OPTIONS, WORD_OPTIONS } from '../services/timedTest';
+import { ClockIcon, HashtagIcon } from '@heroicons/react/24/solid';
+
+interface TimedTestPickerProps {
+  config: TimedTestConfig;
+  disabled: boolean;
+  onChange: (config: TimedTestConfig) => void;
+}
+
+const TimedTestPicker: React.FC<TimedTestPickerProps> = ({ config, disabled, onChange }) => {
+  const option = (kind: TimedTestConfig['kind'], value: number) => {
+    const isActive = config.kind === kind && config.value === value;
+    return (
+      <button
+        key={`${kind}-${value}`}
+        disabled={disabled}
+        onClick={() => onChange({ kind, value })}
+        className={`px-3 py-1 rounded-lg text-sm font-bold font-mono transition-colors disabled:opacity-40
+          ${isActive ? 'bg-neon-purple text-white' : 'text-gray-500 dark:text-gray-400 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+      >
+        {value}
+      </button>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-4xl mb-4 flex flex-wrap justify-center items-center gap-6 p-3 rounded-xl bg-white dark:bg-dark-surface shadow">
+      <div className="flex items-center gap-1">
+        <ClockIcon className="w-4 h-4 text-gray-400 mr-1" />
+        {TIME_OPTIONS.map(value => option('time', value))}
+      </div>
+      <div className="w-px h-6 bg-gray-200 dark:bg-slate-700"></div>
+      <div className="flex items-center gap-1">
+        <HashtagIcon className="w-4 h-4 text-gray-400 mr-1" />
+        {WORD_OPTIONS.map(value => option('words', value))}
+      </div>
+    </div>
+  );
+};
+
+export default TimedTestPicker;
@@ -0,0 +1,45 @@
+import React, { useEffect } from 'react';
+
+export interface Toast {
+  id: number;
+  icon: string;
+  title: string;
+  detail: string;
+}
+
+interface ToastsProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+const TOAST_MS = 4000;
+
+const ToastCard: React.FC<{ toast: Toast; onDismiss: (id: number) => void }> = ({ toast, onDismiss }) => {
+  useEffect(() => {
+    const timeout = window.setTimeout(() => onDismiss(toast.id), TOAST_MS);
+    return () => window.clearTimeout(timeout);
+  }, [toast.id]);
+
+  return (
+    <button
+      onClick={() => onDismiss(toast.id)}
+      className="flex items-center gap-3 w-72 p-4 rounded-xl bg-white dark:bg-slate-800 border border-neon-purple shadow-[0_0_20px_rgba(188,19,254,0.3)] text-left animate-fade-in-up"
+    >
+      <span className="text-3xl">{toast.icon}</span>
+      <span className="flex flex-col">
+        <span className="text-sm font-bold text-gray-900 dark:text-white">{toast.title}</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">{toast.detail}</span>
+      </span>
+    </button>
+  );
+};
+
+const Toasts: React.FC<ToastsProps> = ({ toasts, onDismiss }) => (
+  <div className="fixed bottom-6 right-6 z-50 flex flex-col gap-3">
+    {toasts.map(toast => (
+      <ToastCard key={toast.id} toast={toast} onDismiss={onDismiss} />
+    ))}
+  </div>
+);
+
+export default Toasts;
@@ -1,4 +1,7 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo } from 'react';
+import { TokenKind } from '../types';
+import { TOKEN_COLORS } from '../services/syntaxHighlight';
+import { graphemeOffsets, splitGraphemes } from '../services/graphemes';
 
 interface TypingAreaProps {
   fullText: string;
@@ -6,11 +9,28 @@ interface TypingAreaProps {
   isFocused: boolean;
   onBlur: () => void;
   onFocus: () => void;
+  ghostIndex?: number | null;
+  highlight?: TokenKind[] | null; // per-character token kinds for code
+  blind?: boolean; // typed text is shown without marking mistakes
+  rejectedIndex?: number | null; // character the error policy is holding the caret on
+  opponents?: OpponentCaret[]; // other racers' positions in a multiplayer race
+  composition?: string; // IME or dead-key text still being composed, shown at the caret
 }
 
-const TypingArea: React.FC<TypingAreaProps> = ({ fullText, userInput, isFocused, onBlur, onFocus }) => {
+export interface OpponentCaret {
+  id: string;
+  index: number;
+  color: string;
+  label: string;
+}
+
+// Indexes in props are UTF-16 offsets into fullText; characters are drawn and compared as graphemes
+const TypingArea: React.FC<TypingAreaProps> = ({ fullText, userInput, isFocused, onBlur, onFocus, ghostIndex = null, highlight = null, blind = false, rejectedIndex = null, opponents = [], composition = '' }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const cursorRef = useRef<HTMLSpanElement>(null);
+  const graphemes = useMemo(() => splitGraphemes(fullText), [fullText]);
+  const offsets = useMemo(() => graphemeOffsets(graphemes), [graphemes]);
+  const typed = useMemo(() => splitGraphemes(userInput), [userInput]);
 
   // Auto-scroll to cursor
   useEffect(() => {
@@ -30,7 +50,7 @@ const TypingArea: React.FC<TypingAreaProps> = ({ fullText, userInput, isFocused,
       ref={containerRef}
       className={`
         relative w-full max-w-4xl h-64 overflow-y-auto p-8 rounded-2xl 
-        font-mono text-2xl leading-relaxed tracking-wide shadow-2xl transition-all duration-300
+        font-mono leading-relaxed ${highlight ? 'text-lg' : 'text-2xl tracking-wide'} shadow-2xl transition-all duration-300
         ${isFocused 
           ? 'bg-white dark:bg-dark-surface ring-2 ring-neon-purple' 
           : 'bg-gray-100 dark:bg-slate-900 opacity-70 blur-[1px]'}
@@ -44,16 +64,25 @@ const TypingArea: React.FC<TypingAreaProps> = ({ fullText, userInput, isFocused,
       )}
 
       <div className="whitespace-pre-wrap break-words text-slate-400 dark:text-slate-600">
-        {fullText.split('').map((char, index) => {
+        {graphemes.map((char, position) => {
+          const index = offsets[position];
           let colorClass = '';
-          let isCurrent = index === userInput.length;
+          let isCurrent = position === typed.length;
           let isCursor = isCurrent && isFocused;
+          let isGhost = index === ghostIndex;
+          const carets = opponents.filter(o => o.index === index);
+          // Code keeps its syntax colours, dimmed until typed
+          const syntaxClass = highlight ? TOKEN_COLORS[highlight[index] || 'plain'] : '';
 
-          if (index < userInput.length) {
-            const userChar = userInput[index];
-            colorClass = userChar === char 
-              ? 'text-slate-800 dark:text-slate-100' 
+          if (position < typed.length) {
+            const userChar = typed[position];
+            colorClass = userChar === char || blind
+              ? (syntaxClass || 'text-slate-800 dark:text-slate-100')
               : 'text-red-500 bg-red-100 dark:bg-red-900/30';
+          } else if (index === rejectedIndex && !blind) {
+            colorClass = 'text-red-500 bg-red-200 dark:bg-red-900/60 rounded-sm';
+          } else if (syntaxClass) {
+            colorClass = `${syntaxClass} opacity-40`;
           }
 
           return (
@@ -62,10 +91,30 @@ const TypingArea: React.FC<TypingAreaProps> = ({ fullText, userInput, isFocused,
               ref={isCurrent ? cursorRef : null}
               className={`relative ${colorClass}`}
             >
+              {isCurrent && composition && (
+                <span className="text-neon-purple underline decoration-dotted">{composition}</span>
+              )}
               {isCursor && (
                 <span className="absolute -left-[1px] top-0 bottom-0 w-[2px] bg-neon-pink typing-cursor animate-pulse"></span>
               )}
-              {char}
+              {isGhost && (
+                <span className="absolute -left-[1px] top-0 bottom-0 w-[2px] bg-neon-green opacity-60 shadow-[0_0_8px_rgba(10,255,0,0.8)]"></span>
+              )}
+              {carets.map((caret, i) => (
+                <span
+                  key={caret.id}
+                  className="absolute -left-[1px] top-0 bottom-0 w-[2px] opacity-80"
+                  style={{ backgroundColor: caret.color, boxShadow: `0 0 8px ${caret.color}` }}
+                >
+                  <span
+                    className="absolute bottom-full left-0 px-1 rounded text-[10px] leading-tight font-bold text-black whitespace-nowrap"
+                    style={{ backgroundColor: caret.color, marginBottom: i * 14 }}
+                  >
+                    {caret.label}
+                  </span>
+                </span>
+              ))}
+              {char === '\n' ? <><span className="opacity-30">↵</span>{'\n'}</> : char}
             </span>
           );
         })}
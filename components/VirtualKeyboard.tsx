@@ -1,38 +1,90 @@
 import React from 'react';
-import { KeyStats } from '../types';
+import { Finger, KeyboardLayout, KeyStats } from '../types';
+import { getLayout, ISO_KEY_CODE, ISO_KEY_INDEX, KEY_ERROR_HIGH, KEY_ERROR_WARN, locateChar } from '../services/keyboardLayouts';
+import { FINGER_COLORS, FINGER_LABELS, FINGERS, fingerAt, fingerForChar, fingerForCode, handOf } from '../services/fingerMap';
 
 interface VirtualKeyboardProps {
   activeKey: string | null;
   keyStats: Record<string, KeyStats>;
+  layout?: KeyboardLayout;
+  showFingers?: boolean;
 }
 
-const ROWS = [
-  ['`', '1', '2', '3', '4', '5', '6', '7', '8', '9', '0', '-', '=', 'Backspace'],
-  ['Tab', 'q', 'w', 'e', 'r', 't', 'y', 'u', 'i', 'o', 'p', '[', ']', '\\'],
-  ['CapsLock', 'a', 's', 'd', 'f', 'g', 'h', 'j', 'k', 'l', ';', "'", 'Enter'],
-  ['Shift', 'z', 'x', 'c', 'v', 'b', 'n', 'm', ',', '.', '/', 'Shift'],
-  [' ']
-];
-
-const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({ activeKey, keyStats }) => {
-  
-  const getKeyColor = (keyLabel: string) => {
-    const lowerKey = keyLabel.toLowerCase();
-    const stats = keyStats[lowerKey];
-    
+interface KeyCap {
+  label: string;
+  shiftLabel?: string;
+  row: number;
+  index: number;
+  code?: string;
+}
+
+// Character keys come from the layout; modifiers wrap them the same way on every layout
+const buildRows = (layout: KeyboardLayout): KeyCap[][] => {
+  const charKeys = layout.rows.map((row, r) =>
+    row.split('').map((label, index) => ({ label, shiftLabel: layout.shiftRows[r][index], row: r, index }))
+  );
+  const special = (label: string, code?: string): KeyCap => ({ label, row: -1, index: -1, code });
+  const iso: KeyCap[] = layout.intlBackslash
+    ? [{ label: layout.intlBackslash[0], shiftLabel: layout.intlBackslash[1], row: 3, index: ISO_KEY_INDEX, code: ISO_KEY_CODE }]
+    : [];
+
+  return [
+    [...charKeys[0], special('Backspace')],
+    [special('Tab'), ...charKeys[1]],
+    [special('CapsLock'), ...charKeys[2], special('Enter')],
+    [special('Shift', 'ShiftLeft'), ...iso, ...charKeys[3], special('Shift', 'ShiftRight')],
+    [special(' ', 'Space')],
+  ];
+};
+
+const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({ activeKey, keyStats, layout = getLayout('qwerty'), showFingers = false }) => {
+  const rows = buildRows(layout);
+  const activeLocation = activeKey ? locateChar(layout, activeKey) : null;
+  const activeFinger = activeKey ? fingerForChar(layout, activeKey) : null;
+  const activeHand = activeFinger ? handOf(activeFinger) : null;
+  // Shifted characters take the Shift key on the opposite hand
+  const shiftCode = activeLocation?.shift ? (activeHand === 'left' ? 'ShiftRight' : 'ShiftLeft') : null;
+
+  const fingerOf = (key: KeyCap): Finger | null =>
+    key.code === 'ShiftLeft' ? 'left-pinky' : key.code === 'ShiftRight' ? 'right-pinky' : key.code ? fingerForCode(key.code) : fingerAt(key.row, key.index);
+
+  const isActive = (key: KeyCap) => {
+    if (!activeKey) return false;
+    if (key.label === ' ') return activeKey === ' ';
+    if (key.label === 'Shift') return key.code === shiftCode;
+    return activeLocation !== null && activeLocation.row === key.row && activeLocation.index === key.index;
+  };
+
+  // Stats are keyed by lowercased expected character, so a key owns both of its legends
+  const getStats = (key: KeyCap): KeyStats | undefined => {
+    const labels = Array.from(new Set([key.label.toLowerCase(), key.shiftLabel?.toLowerCase()]));
+    const found = labels.map(l => (l ? keyStats[l] : undefined)).filter((s): s is KeyStats => Boolean(s));
+    if (found.length === 0) return undefined;
+    return found.reduce((acc, s) => ({ ...acc, total: acc.total + s.total, errors: acc.errors + s.errors }));
+  };
+
+  const getKeyColor = (key: KeyCap) => {
+    const stats = getStats(key);
+
     // Base styles
     let base = "bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-200 border-b-4 border-slate-300 dark:border-slate-900";
-    
+
     // Active Key Highlighting
-    if (activeKey && keyLabel.toLowerCase() === activeKey.toLowerCase()) {
+    if (isActive(key)) {
       return "bg-neon-blue text-black border-b-4 border-blue-700 scale-95 shadow-[0_0_15px_rgba(0,243,255,0.7)]";
     }
 
+    // Finger guide colouring replaces the heatmap while learning
+    if (showFingers) {
+      const finger = fingerOf(key);
+      return finger ? `${FINGER_COLORS[finger]} text-slate-900 dark:text-slate-100 border-b-4 border-black/20` : base;
+    }
+
     // Heatmap Logic (Red for high errors)
     if (stats && stats.total > 0) {
       const errorRate = stats.errors / stats.total;
-      if (errorRate > 0.2) return "bg-red-400 dark:bg-red-900 border-red-700";
-      if (errorRate > 0.1) return "bg-orange-300 dark:bg-orange-800 border-orange-600";
+      if (errorRate > KEY_ERROR_HIGH) return "bg-red-400 dark:bg-red-900 border-red-700";
+      if (errorRate > KEY_ERROR_WARN) return "bg-orange-300 dark:bg-orange-800 border-orange-600";
     }
 
     return base;
@@ -52,23 +104,40 @@ const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({ activeKey, keyStats }
 
   return (
     <div className="hidden lg:flex flex-col gap-2 p-6 bg-slate-200 dark:bg-slate-800 rounded-xl shadow-inner select-none transition-colors duration-300">
-      {ROWS.map((row, rIndex) => (
+      {rows.map((row, rIndex) => (
         <div key={rIndex} className="flex justify-center gap-2">
-          {row.map((keyLabel, kIndex) => (
+          {row.map((key, kIndex) => (
             <div
               key={`${rIndex}-${kIndex}`}
               className={`
-                ${getKeyWidth(keyLabel)} h-12 flex items-center justify-center rounded-lg font-mono text-sm font-bold shadow-sm transition-all duration-100
-                ${getKeyColor(keyLabel)}
+                ${getKeyWidth(key.label)} h-12 flex items-center justify-center rounded-lg font-mono text-sm font-bold shadow-sm transition-all duration-100
+                ${getKeyColor(key)}
               `}
             >
-              {keyLabel === ' ' ? '' : keyLabel}
+              {key.label === ' ' ? '' : key.label}
             </div>
           ))}
         </div>
       ))}
+
+      {showFingers && (
+        <div className="flex justify-center gap-2 mt-4">
+          {FINGERS.map(finger => (
+            <div
+              key={finger}
+              className={`
+                px-3 py-1 rounded-full text-xs font-bold transition-all duration-100
+                ${FINGER_COLORS[finger]}
+                ${finger === activeFinger ? 'ring-2 ring-neon-blue scale-110' : 'opacity-50'}
+              `}
+            >
+              {FINGER_LABELS[finger]}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
 
-export default VirtualKeyboard;
\ No newline at end of file
+export default VirtualKeyboard;
@@ -0,0 +1,222 @@
+// LAN race server for TypeNeon multiplayer. Run with `npm run race-server`; players on the
+// same network connect to ws://<this machine>:8787. Rooms live in memory only.
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_PLAYERS = 6;
+const COUNTDOWN_SECONDS = 3;
+// Unfinished players are marked DNF once a race has run this long
+const MAX_RACE_MS = 5 * 60 * 1000;
+const COLORS = ['#0aff00', '#00f3ff', '#bc13fe', '#ff00ff', '#ffd300', '#ff6b00'];
+// No 0/O or 1/I, so codes survive being read out across the office
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const PASSAGES = [
+  "The office grew quiet at noon as six keyboards waited for the signal. Nobody looked up from the screen; the only thing that mattered was the next word.",
+  "Good typing is mostly calm. Keep your wrists light, your eyes on the text and let the rhythm carry you from one word to the next without rushing.",
+  "A small server on the local network keeps every racer in step. It picks the passage, counts down together and decides who crossed the line first.",
+  "Rain tapped against the window while the kettle clicked off in the kitchen. Somewhere down the hall a printer woke up, hummed for a moment and fell silent again.",
+  "Practice does not need to be long to be useful. Ten focused minutes a day will do more for your speed than an hour of distracted drills once a week.",
+  "The river bends around the old stone bridge, slow and patient, carrying leaves from the forest down toward the sea where every journey ends.",
+];
+
+const rooms = new Map();
+let nextPlayerId = 1;
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room, message) => room.players.forEach(p => send(p.socket, message));
+
+const createCode = () => {
+  let code;
+  do {
+    code = Array.from({ length: 4 }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const elapsedMs = (room) => (room.startedAt ? Date.now() - room.startedAt : 0);
+
+// Live WPM counts everything typed so far; finishing WPM is recomputed from the final input
+const wpmOf = (chars, ms) => (ms > 0 ? Math.round((chars / 5) / (ms / 60000)) : 0);
+
+const playerView = (room, player) => ({
+  id: player.id,
+  name: player.name,
+  color: player.color,
+  position: player.position,
+  wpm: player.finishedMs !== null ? player.result.wpm : wpmOf(player.position, elapsedMs(room)),
+  finished: player.finishedMs !== null,
+});
+
+const roomView = (room) => ({
+  type: 'room',
+  code: room.code,
+  hostId: room.hostId,
+  status: room.status,
+  players: room.players.map(p => playerView(room, p)),
+});
+
+const publish = (room) => broadcast(room, roomView(room));
+
+// Finished players rank by the server's clock; DNFs follow in order of distance covered
+const finishRace = (room) => {
+  if (room.status !== 'racing') return;
+  clearTimeout(room.timer);
+  room.status = 'finished';
+  const ranked = [...room.players].sort((a, b) => {
+    if (a.finishedMs !== null && b.finishedMs !== null) return a.finishedMs - b.finishedMs;
+    if (a.finishedMs !== null || b.finishedMs !== null) return a.finishedMs !== null ? -1 : 1;
+    return b.position - a.position;
+  });
+  const results = ranked.map((p, i) => ({
+    id: p.id,
+    name: p.name,
+    color: p.color,
+    place: i + 1,
+    wpm: p.result ? p.result.wpm : wpmOf(p.position, elapsedMs(room)),
+    accuracy: p.result ? p.result.accuracy : null,
+    timeMs: p.finishedMs,
+  }));
+  publish(room);
+  broadcast(room, { type: 'results', results });
+};
+
+const startRace = (room) => {
+  if (room.status === 'countdown' || room.status === 'racing') return;
+  room.text = PASSAGES[Math.floor(Math.random() * PASSAGES.length)];
+  room.status = 'countdown';
+  room.startedAt = null;
+  room.players.forEach(p => {
+    p.position = 0;
+    p.finishedMs = null;
+    p.result = null;
+  });
+  publish(room);
+
+  let remaining = COUNTDOWN_SECONDS;
+  const tick = () => {
+    if (remaining > 0) {
+      broadcast(room, { type: 'countdown', remaining, text: room.text });
+      remaining -= 1;
+      room.timer = setTimeout(tick, 1000);
+      return;
+    }
+    room.status = 'racing';
+    room.startedAt = Date.now();
+    broadcast(room, { type: 'start', text: room.text });
+    publish(room);
+    room.timer = setTimeout(() => finishRace(room), MAX_RACE_MS);
+  };
+  tick();
+};
+
+// The client sends its final input; the time comes from the server's own clock
+const finishPlayer = (room, player, input) => {
+  if (room.status !== 'racing' || player.finishedMs !== null) return;
+  if (typeof input !== 'string' || input.length < room.text.length) return;
+  const finishedMs = elapsedMs(room);
+  const typed = input.slice(0, room.text.length);
+  const correct = Array.from(typed).filter((char, i) => char === room.text[i]).length;
+  player.position = room.text.length;
+  player.finishedMs = finishedMs;
+  player.result = {
+    wpm: wpmOf(correct, finishedMs),
+    accuracy: Math.round((correct / room.text.length) * 100),
+  };
+  publish(room);
+  if (room.players.every(p => p.finishedMs !== null)) finishRace(room);
+};
+
+const leaveRoom = (player) => {
+  const room = player.room;
+  if (!room) return;
+  player.room = null;
+  room.players = room.players.filter(p => p !== player);
+  if (room.players.length === 0) {
+    clearTimeout(room.timer);
+    rooms.delete(room.code);
+    return;
+  }
+  if (room.hostId === player.id) room.hostId = room.players[0].id;
+  publish(room);
+  if (room.status === 'racing' && room.players.every(p => p.finishedMs !== null)) finishRace(room);
+};
+
+const joinRoom = (player, room, name) => {
+  if (room.players.length >= MAX_PLAYERS) {
+    send(player.socket, { type: 'error', message: 'That room is full' });
+    return;
+  }
+  if (room.status === 'countdown' || room.status === 'racing') {
+    send(player.socket, { type: 'error', message: 'That room is mid-race, try again in a moment' });
+    return;
+  }
+  leaveRoom(player);
+  player.name = String(name || '').trim().slice(0, 16) || `Racer ${player.id}`;
+  const taken = new Set(room.players.map(p => p.color));
+  player.color = COLORS.find(c => !taken.has(c)) || COLORS[0];
+  player.position = 0;
+  player.finishedMs = null;
+  player.result = null;
+  player.room = room;
+  room.players.push(player);
+  send(player.socket, { type: 'welcome', playerId: player.id, code: room.code });
+  publish(room);
+};
+
+const handleMessage = (player, message) => {
+  const room = player.room;
+  switch (message.type) {
+    case 'create': {
+      const code = createCode();
+      const created = { code, hostId: player.id, status: 'lobby', text: '', players: [], startedAt: null, timer: null };
+      rooms.set(code, created);
+      joinRoom(player, created, message.name);
+      break;
+    }
+    case 'join': {
+      const target = rooms.get(String(message.code || '').trim().toUpperCase());
+      if (target) joinRoom(player, target, message.name);
+      else send(player.socket, { type: 'error', message: 'No room with that code' });
+      break;
+    }
+    case 'start':
+      if (room && room.hostId === player.id) startRace(room);
+      break;
+    case 'progress':
+      if (room && room.status === 'racing' && player.finishedMs === null) {
+        player.position = Math.max(0, Math.min(Number(message.position) || 0, room.text.length));
+        publish(room);
+      }
+      break;
+    case 'finish':
+      if (room) finishPlayer(room, player, message.input);
+      break;
+    case 'leave':
+      leaveRoom(player);
+      break;
+  }
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket) => {
+  const player = { id: String(nextPlayerId++), socket, name: '', color: COLORS[0], room: null, position: 0, finishedMs: null, result: null };
+
+  socket.on('message', (data) => {
+    try {
+      handleMessage(player, JSON.parse(data.toString()));
+    } catch (error) {
+      console.error("Failed to handle message:", error);
+      send(socket, { type: 'error', message: 'Malformed message' });
+    }
+  });
+  socket.on('close', () => leaveRoom(player));
+});
+
+server.on('listening', () => {
+  console.log(`TypeNeon race server listening on ws://0.0.0.0:${PORT}`);
+});
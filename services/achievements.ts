@@ -0,0 +1,196 @@
+import { GameMode, KeyboardLayout, KeyStats, LessonConfig, PlayerProfile, SessionRecord } from '../types';
+import { HOME_ROW, KEY_ERROR_WARN } from './keyboardLayouts';
+import { RainSummary } from './rainEngine';
+
+const STORAGE_KEY = 'typeneon:profile';
+// Home-row keys need this many strokes before they can count as mastered
+const MASTERY_MIN_STROKES = 20;
+
+// Everything a rule may look at after a session or game ends
+export interface ProgressEvent {
+  session: SessionRecord;
+  sessions: SessionRecord[]; // full history, including this session
+  keyStats: Record<string, KeyStats>;
+  layout: KeyboardLayout;
+  lesson: LessonConfig | null;
+  rain: RainSummary | null;
+  dailyStreak: number;
+}
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  xp: number;
+  earned: (event: ProgressEvent) => boolean;
+}
+
+const isTyping = (session: SessionRecord) => session.mode !== GameMode.GAME_RAIN;
+
+const homeRowMastered = ({ keyStats, layout }: ProgressEvent) => {
+  const keys = Array.from(layout.rows[HOME_ROW]).filter(ch => /\p{L}/u.test(ch));
+  return keys.every(key => {
+    const stats = keyStats[key];
+    return stats && stats.total >= MASTERY_MIN_STROKES && stats.errors / stats.total <= KEY_ERROR_WARN;
+  });
+};
+
+// Adding an achievement only means adding an entry here
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-steps',
+    title: 'First Steps',
+    description: 'Finish your first session',
+    icon: '👣',
+    xp: 20,
+    earned: () => true,
+  },
+  {
+    id: 'wpm-40',
+    title: 'Cruising',
+    description: 'Reach 40 WPM',
+    icon: '🚲',
+    xp: 50,
+    earned: ({ session }) => isTyping(session) && session.stats.wpm >= 40,
+  },
+  {
+    id: 'wpm-60',
+    title: 'Sixty Club',
+    description: 'Reach 60 WPM for the first time',
+    icon: '🏎️',
+    xp: 100,
+    earned: ({ session }) => isTyping(session) && session.stats.wpm >= 60,
+  },
+  {
+    id: 'wpm-100',
+    title: 'Triple Digits',
+    description: 'Reach 100 WPM',
+    icon: '🚀',
+    xp: 250,
+    earned: ({ session }) => isTyping(session) && session.stats.wpm >= 100,
+  },
+  {
+    id: 'flawless-advanced',
+    title: 'Flawless',
+    description: 'Finish an Advanced lesson with 100% accuracy',
+    icon: '💎',
+    xp: 150,
+    earned: ({ session, lesson }) => lesson?.difficulty === 'Advanced' && session.stats.accuracy === 100,
+  },
+  {
+    id: 'home-row-master',
+    title: 'Home Row Hero',
+    description: 'Get every home-row letter under the heatmap error threshold',
+    icon: '🏠',
+    xp: 120,
+    earned: homeRowMastered,
+  },
+  {
+    id: 'rain-level-10',
+    title: 'Storm Chaser',
+    description: 'Survive to level 10 in Neon Rain',
+    icon: '⛈️',
+    xp: 150,
+    earned: ({ rain }) => Boolean(rain && rain.level >= 10),
+  },
+  {
+    id: 'streak-7',
+    title: 'Week Warrior',
+    description: 'Keep a 7-day daily challenge streak',
+    icon: '🔥',
+    xp: 200,
+    earned: ({ dailyStreak }) => dailyStreak >= 7,
+  },
+  {
+    id: 'race-winner',
+    title: 'Podium Top',
+    description: 'Win a race',
+    icon: '🏁',
+    xp: 80,
+    earned: ({ session }) => session.placement === 1,
+  },
+  {
+    id: 'code-monkey',
+    title: 'Code Monkey',
+    description: 'Type a code snippet to the end',
+    icon: '💻',
+    xp: 40,
+    earned: ({ session }) => session.mode === GameMode.CODE,
+  },
+  {
+    id: 'dedicated',
+    title: 'Dedicated',
+    description: 'Finish 50 sessions',
+    icon: '📅',
+    xp: 150,
+    earned: ({ sessions }) => sessions.length >= 50,
+  },
+  {
+    id: 'marathon',
+    title: 'Marathon',
+    description: 'Type 50,000 characters in total',
+    icon: '🏃',
+    xp: 200,
+    earned: ({ sessions }) => sessions.reduce((sum, s) => sum + s.stats.charsTyped, 0) >= 50000,
+  },
+];
+
+// Typing earns a point per correct word; Neon Rain a point per 20 score
+export const sessionXp = (session: SessionRecord): number =>
+  session.mode === GameMode.GAME_RAIN
+    ? Math.round((session.score || 0) / 20)
+    : Math.max(1, Math.round((session.stats.charsTyped / 5) * (session.stats.accuracy / 100)));
+
+// Level n is reached at 50 * n * (n - 1) XP, so each level takes 100 XP more than the last
+const xpForLevel = (level: number) => 50 * level * (level - 1);
+
+export const levelInfo = (xp: number) => {
+  let level = 1;
+  while (xp >= xpForLevel(level + 1)) level++;
+  const floor = xpForLevel(level);
+  return { level, progress: xp - floor, needed: xpForLevel(level + 1) - floor };
+};
+
+export const loadProfile = (): PlayerProfile => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { xp: 0, unlocked: {}, ...JSON.parse(stored) } : { xp: 0, unlocked: {} };
+  } catch (error) {
+    console.error("Failed to load profile:", error);
+    return { xp: 0, unlocked: {} };
+  }
+};
+
+export const saveProfile = (profile: PlayerProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.error("Failed to save profile:", error);
+  }
+};
+
+export interface ProgressUpdate {
+  profile: PlayerProfile;
+  unlocked: Achievement[];
+  xpGained: number;
+  levelUp: number | null; // the new level, if one was reached
+}
+
+// Awards session XP, checks every rule not yet earned and persists the result
+export const recordProgress = (event: ProgressEvent): ProgressUpdate => {
+  const before = loadProfile();
+  const unlocked = ACHIEVEMENTS.filter(a => !before.unlocked[a.id] && a.earned(event));
+  const xpGained = sessionXp(event.session) + unlocked.reduce((sum, a) => sum + a.xp, 0);
+  const profile: PlayerProfile = {
+    xp: before.xp + xpGained,
+    unlocked: {
+      ...before.unlocked,
+      ...Object.fromEntries(unlocked.map(a => [a.id, event.session.timestamp])),
+    },
+  };
+  saveProfile(profile);
+  const levelBefore = levelInfo(before.xp).level;
+  const levelAfter = levelInfo(profile.xp).level;
+  return { profile, unlocked, xpGained, levelUp: levelAfter > levelBefore ? levelAfter : null };
+};
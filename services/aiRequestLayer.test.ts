@@ -0,0 +1,196 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AiRequestError, createRequestLayer, LruCache, RequestLayerOptions } from './aiRequestLayer';
+import { createMockAiClient, MockAiOptions } from './mockAiClient';
+
+const request = (contents: string) => ({ model: 'test', contents });
+
+// A layer over the mock client with a controllable clock and sleeps that only record their length
+const setup = (mock: MockAiOptions = {}, options: Partial<RequestLayerOptions> = {}) => {
+  const { client, calls } = createMockAiClient({ latencyMs: 0, respond: r => `re: ${r.contents}`, ...mock });
+  const clock = { now: 0 };
+  const sleeps: number[] = [];
+  const layer = createRequestLayer(client, {
+    timeoutMs: 1000,
+    retries: 2,
+    backoffMs: 100,
+    requestsPerMinute: 10,
+    cacheSize: 5,
+    now: () => clock.now,
+    sleep: async ms => { sleeps.push(ms); },
+    ...options,
+  });
+  return { layer, calls, clock, sleeps };
+};
+
+const failureKind = (promise: Promise<unknown>) =>
+  promise.then(() => null, (error: unknown) => (error instanceof AiRequestError ? error.kind : error));
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createRequestLayer', () => {
+  it('answers through the client', async () => {
+    const { layer, calls } = setup();
+    await expect(layer.generate('k', request('hello'))).resolves.toBe('re: hello');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('times out a slow request', async () => {
+    vi.useFakeTimers();
+    const { layer, calls } = setup({ latencyMs: 5000 }, { timeoutMs: 1000, retries: 0 });
+    const result = failureKind(layer.generate('k', request('slow')));
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toBe('timeout');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('retries a timeout like any other transient failure', async () => {
+    vi.useFakeTimers();
+    const { layer, calls, sleeps } = setup({ latencyMs: 5000 }, { timeoutMs: 1000, retries: 1 });
+    const result = failureKind(layer.generate('k', request('slow')));
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(result).resolves.toBe('timeout');
+    expect(calls).toHaveLength(2);
+    expect(sleeps).toEqual([100]);
+  });
+
+  it('retries server errors with exponential backoff', async () => {
+    const { layer, calls, sleeps } = setup({ failures: 2, failStatus: 503 });
+    await expect(layer.generate('k', request('flaky'))).resolves.toBe('re: flaky');
+    expect(calls).toHaveLength(3);
+    expect(sleeps).toEqual([100, 200]);
+  });
+
+  it('gives up after the last retry', async () => {
+    const { layer, calls } = setup({ failures: 5, failStatus: 503 }, { retries: 2 });
+    await expect(failureKind(layer.generate('k', request('down')))).resolves.toBe('network');
+    expect(calls).toHaveLength(3);
+  });
+
+  it('retries rate limiting but not other client errors', async () => {
+    const rejected = setup({ failures: 1, failStatus: 400 });
+    await expect(failureKind(rejected.layer.generate('k', request('bad')))).resolves.toBe('rejected');
+    expect(rejected.calls).toHaveLength(1);
+    expect(rejected.sleeps).toEqual([]);
+
+    const limited = setup({ failures: 1, failStatus: 429 });
+    await expect(limited.layer.generate('k', request('busy'))).resolves.toBe('re: busy');
+    expect(limited.calls).toHaveLength(2);
+  });
+
+  it('reports an empty answer as invalid', async () => {
+    const { layer } = setup({ respond: () => '  ' }, { retries: 0 });
+    await expect(failureKind(layer.generate('k', request('x')))).resolves.toBe('invalid');
+  });
+
+  it('shares one request between identical calls in flight', async () => {
+    const { layer, calls } = setup();
+    const [a, b] = await Promise.all([
+      layer.generate('same', request('once')),
+      layer.generate('same', request('once')),
+    ]);
+    expect(a).toBe('re: once');
+    expect(b).toBe('re: once');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('keeps reused results until they expire', async () => {
+    const { layer, calls, clock } = setup();
+    await layer.generate('words', request('w'), { cache: 'reuse', ttlMs: 1000 });
+    await layer.generate('words', request('w'), { cache: 'reuse', ttlMs: 1000 });
+    expect(calls).toHaveLength(1);
+    clock.now = 1000;
+    await layer.generate('words', request('w'), { cache: 'reuse', ttlMs: 1000 });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('hands a consumed result out once', async () => {
+    const { layer, calls } = setup();
+    layer.prefetch('lesson', request('l'));
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    await layer.generate('lesson', request('l'), { cache: 'consume' });
+    expect(calls).toHaveLength(1);
+    await layer.generate('lesson', request('l'), { cache: 'consume' });
+    expect(calls).toHaveLength(2);
+  });
+
+  it('never caches without a cache policy', async () => {
+    const { layer, calls } = setup();
+    await layer.generate('k', request('x'));
+    await layer.generate('k', request('x'));
+    expect(calls).toHaveLength(2);
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const { layer, calls } = setup({}, { cacheSize: 2 });
+    const reuse = (key: string) => layer.generate(key, request(key), { cache: 'reuse' });
+    await reuse('a');
+    await reuse('b');
+    await reuse('a'); // a is now the most recently used
+    await reuse('c'); // evicts b
+    expect(calls).toHaveLength(3);
+    await reuse('a');
+    expect(calls).toHaveLength(3);
+    await reuse('b');
+    expect(calls).toHaveLength(4);
+  });
+
+  it('refuses requests once the minute budget is spent', async () => {
+    const { layer, calls, clock } = setup({}, { requestsPerMinute: 2 });
+    await layer.generate('1', request('1'));
+    await layer.generate('2', request('2'));
+    expect(layer.remainingBudget()).toBe(0);
+    await expect(failureKind(layer.generate('3', request('3')))).resolves.toBe('budget');
+    expect(calls).toHaveLength(2);
+
+    clock.now = 60 * 1000;
+    expect(layer.remainingBudget()).toBe(2);
+    await expect(layer.generate('3', request('3'))).resolves.toBe('re: 3');
+  });
+
+  it('counts retries against the budget and stops retrying when it runs out', async () => {
+    const { layer, calls } = setup({ failures: 5, failStatus: 503 }, { requestsPerMinute: 2, retries: 5 });
+    await expect(failureKind(layer.generate('k', request('x')))).resolves.toBe('network');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('leaves the last request of the minute to the user instead of a prefetch', async () => {
+    const { layer, calls } = setup({}, { requestsPerMinute: 2 });
+    await layer.generate('1', request('1'));
+    layer.prefetch('lesson', request('l'));
+    expect(calls).toHaveLength(1);
+    expect(layer.remainingBudget()).toBe(1);
+  });
+
+  it('applies new settings to later requests', async () => {
+    const { layer } = setup({}, { requestsPerMinute: 1 });
+    await layer.generate('1', request('1'));
+    layer.configure({ requestsPerMinute: 3 });
+    expect(layer.remainingBudget()).toBe(2);
+  });
+});
+
+describe('LruCache', () => {
+  it('expires entries after their time to live', () => {
+    let now = 0;
+    const cache = new LruCache<string>(3, () => now);
+    cache.set('a', 'x', 100);
+    expect(cache.get('a')).toBe('x');
+    now = 100;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.has('a')).toBe(false);
+  });
+
+  it('drops the least recently read entry when full', () => {
+    const cache = new LruCache<number>(2);
+    cache.set('a', 1, 1000);
+    cache.set('b', 2, 1000);
+    cache.get('a');
+    cache.set('c', 3, 1000);
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.has('c')).toBe(true);
+  });
+});
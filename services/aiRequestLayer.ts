@@ -0,0 +1,195 @@
+// Everything between the app and a text-generation client: timeouts, retries with
+// backoff, de-duplication of identical requests, a small LRU cache and a rolling
+// per-minute request budget. The client is an interface so a local mock can stand in.
+
+export interface GenerateRequest {
+  model: string;
+  contents: string;
+  config?: Record<string, unknown>;
+}
+
+export interface AiClient {
+  generateContent: (request: GenerateRequest, signal: AbortSignal) => Promise<{ text?: string }>;
+}
+
+export type AiErrorKind = 'timeout' | 'budget' | 'network' | 'rejected' | 'invalid';
+
+const ERROR_MESSAGES: Record<AiErrorKind, string> = {
+  timeout: 'The AI service took too long to answer.',
+  budget: 'AI request budget for this minute is used up.',
+  network: 'The AI service could not be reached.',
+  rejected: 'The AI service refused the request.',
+  invalid: 'The AI service sent back something unusable.',
+};
+
+export class AiRequestError extends Error {
+  kind: AiErrorKind;
+
+  constructor(kind: AiErrorKind, cause?: unknown) {
+    super(ERROR_MESSAGES[kind]);
+    this.name = 'AiRequestError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+}
+
+// Map iteration order is insertion order, so re-inserting on read keeps the
+// least recently used entry first in line for eviction
+export class LruCache<V> {
+  private entries = new Map<string, { value: V; expires: number }>();
+  private readonly capacity: number;
+  private readonly now: () => number;
+
+  constructor(capacity: number, now: () => number = Date.now) {
+    this.capacity = capacity;
+    this.now = now;
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expires <= this.now()) return undefined;
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  has(key: string) {
+    return this.get(key) !== undefined;
+  }
+
+  set(key: string, value: V, ttlMs: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: this.now() + ttlMs });
+    while (this.entries.size > this.capacity) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+export interface RequestLayerOptions {
+  timeoutMs: number;
+  retries: number;
+  backoffMs: number; // first retry waits this long, doubling after that
+  requestsPerMinute: number;
+  cacheSize: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+// 'reuse' keeps a result for later identical requests (word batches); 'consume' hands a
+// cached result out once (lessons, where the same text twice in a row would be a bug)
+export type CachePolicy = 'none' | 'reuse' | 'consume';
+
+export interface RequestOptions {
+  cache?: CachePolicy;
+  ttlMs?: number;
+}
+
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+const BUDGET_WINDOW_MS = 60 * 1000;
+
+// Client errors other than rate limiting will not go away by asking again
+const isRetryable = (error: unknown) => {
+  if (error instanceof AiRequestError) return error.kind === 'timeout' || error.kind === 'network';
+  const status = (error as { status?: unknown })?.status;
+  return typeof status !== 'number' || status === 429 || status >= 500;
+};
+
+const classify = (error: unknown): AiRequestError => {
+  if (error instanceof AiRequestError) return error;
+  const status = (error as { status?: unknown })?.status;
+  return new AiRequestError(typeof status === 'number' && status < 500 && status !== 429 ? 'rejected' : 'network', error);
+};
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export const createRequestLayer = (client: AiClient, options: RequestLayerOptions) => {
+  const now = options.now || Date.now;
+  const sleep = options.sleep || defaultSleep;
+  const cache = new LruCache<string>(options.cacheSize, now);
+  const inFlight = new Map<string, Promise<string>>();
+  let settings = options;
+  let sent: number[] = [];
+
+  const remainingBudget = () => {
+    sent = sent.filter(t => now() - t < BUDGET_WINDOW_MS);
+    return Math.max(0, settings.requestsPerMinute - sent.length);
+  };
+
+  const attempt = async (request: GenerateRequest): Promise<string> => {
+    if (remainingBudget() === 0) throw new AiRequestError('budget');
+    sent.push(now());
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      // Rejecting before the abort makes the race settle as a timeout, not as the client's abort error
+      timer = setTimeout(() => {
+        reject(new AiRequestError('timeout'));
+        controller.abort();
+      }, settings.timeoutMs);
+    });
+    try {
+      const response = await Promise.race([client.generateContent(request, controller.signal), timeout]);
+      const text = response.text?.trim();
+      if (!text) throw new AiRequestError('invalid');
+      return text;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  // Retries count against the budget like any other request, so a flaky
+  // connection cannot burn through the quota on its own
+  const send = async (request: GenerateRequest): Promise<string> => {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await attempt(request);
+      } catch (error) {
+        if (retry >= settings.retries || !isRetryable(error) || remainingBudget() === 0) throw classify(error);
+        await sleep(settings.backoffMs * 2 ** retry);
+      }
+    }
+  };
+
+  const run = (key: string, request: GenerateRequest, cacheResult: boolean, ttlMs: number) => {
+    const pending = send(request)
+      .then(text => {
+        if (cacheResult) cache.set(key, text, ttlMs);
+        return text;
+      })
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+    return pending;
+  };
+
+  const generate = async (key: string, request: GenerateRequest, { cache: policy = 'none', ttlMs = DEFAULT_TTL_MS }: RequestOptions = {}) => {
+    const cached = policy === 'none' ? undefined : cache.get(key);
+    if (cached !== undefined) {
+      if (policy === 'consume') cache.delete(key);
+      return cached;
+    }
+    const text = await (inFlight.get(key) || run(key, request, policy === 'reuse', ttlMs));
+    if (policy === 'consume') cache.delete(key);
+    return text;
+  };
+
+  // Fills the cache ahead of time, but never with the last request of the minute:
+  // that one is kept for something the user actually asked for
+  const prefetch = (key: string, request: GenerateRequest, ttlMs: number = DEFAULT_TTL_MS) => {
+    if (cache.has(key) || inFlight.has(key) || remainingBudget() <= 1) return;
+    run(key, request, true, ttlMs).catch(error => console.error("AI prefetch failed:", error));
+  };
+
+  const configure = (patch: Partial<RequestLayerOptions>) => {
+    settings = { ...settings, ...patch };
+  };
+
+  return { generate, prefetch, configure, remainingBudget };
+};
+
+export type RequestLayer = ReturnType<typeof createRequestLayer>;
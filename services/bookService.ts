@@ -0,0 +1,125 @@
+import { BookMeta } from '../types';
+import { stripMarkdown } from './textPipeline';
+
+// Metadata for every book lives under one key; each book's chunks get their own key so
+// opening the library never parses a whole novel
+const LIBRARY_KEY = 'typeneon:books';
+const chunksKey = (id: string) => `typeneon:book:${id}`;
+
+// Paragraphs are merged up to roughly this size, and longer ones split at sentences
+const TARGET_CHUNK_CHARS = 400;
+const MAX_CHUNK_CHARS = 600;
+
+const splitLong = (paragraph: string): string[] => {
+  if (paragraph.length <= MAX_CHUNK_CHARS) return [paragraph];
+  const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+  sentences.forEach(sentence => {
+    if (current && current.length + sentence.length > TARGET_CHUNK_CHARS) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  });
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+};
+
+// Paragraph-sized pieces of a document, each one a typing session. `clean` is the text
+// pipeline; paragraphs are joined onto one line whatever it does, since prose has no Enter.
+export const chunkText = (text: string, clean: (paragraph: string) => string): string[] => {
+  const paragraphs = text
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(paragraph => clean(paragraph).replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap(splitLong);
+
+  const chunks: string[] = [];
+  paragraphs.forEach(paragraph => {
+    const last = chunks[chunks.length - 1];
+    if (last !== undefined && last.length + paragraph.length + 1 <= TARGET_CHUNK_CHARS) {
+      chunks[chunks.length - 1] = `${last} ${paragraph}`;
+    } else {
+      chunks.push(paragraph);
+    }
+  });
+  return chunks;
+};
+
+export const isMarkdownFile = (fileName: string) => /\.(md|markdown)$/i.test(fileName);
+
+export const listBooks = (): BookMeta[] => {
+  try {
+    const stored = localStorage.getItem(LIBRARY_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Failed to load library:", error);
+    return [];
+  }
+};
+
+const saveLibrary = (books: BookMeta[]) => {
+  try {
+    localStorage.setItem(LIBRARY_KEY, JSON.stringify(books));
+  } catch (error) {
+    console.error("Failed to save library:", error);
+  }
+};
+
+export const loadBookChunks = (id: string): string[] | null => {
+  try {
+    const stored = localStorage.getItem(chunksKey(id));
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error("Failed to load book:", error);
+    return null;
+  }
+};
+
+// Throws when the document is empty or does not fit in browser storage
+export const addBook = (
+  title: string,
+  content: string,
+  markdown: boolean,
+  clean: (paragraph: string) => string
+): BookMeta => {
+  const chunks = chunkText(markdown ? stripMarkdown(content) : content, clean);
+  if (chunks.length === 0) throw new Error("There is no text to type in this document");
+
+  const now = Date.now();
+  const book: BookMeta = {
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    title: title.trim() || 'Untitled',
+    chunkCount: chunks.length,
+    charCount: chunks.reduce((sum, c) => sum + c.length, 0),
+    bookmark: 0,
+    addedAt: now,
+    lastReadAt: now,
+  };
+
+  try {
+    localStorage.setItem(chunksKey(book.id), JSON.stringify(chunks));
+  } catch {
+    throw new Error("Not enough browser storage left for this document");
+  }
+  saveLibrary([book, ...listBooks()]);
+  return book;
+};
+
+// Returns the updated library
+export const setBookmark = (id: string, bookmark: number): BookMeta[] => {
+  const books = listBooks().map(b =>
+    b.id === id ? { ...b, bookmark: Math.max(0, Math.min(bookmark, b.chunkCount)), lastReadAt: Date.now() } : b
+  );
+  saveLibrary(books);
+  return books;
+};
+
+export const deleteBook = (id: string): BookMeta[] => {
+  localStorage.removeItem(chunksKey(id));
+  const books = listBooks().filter(b => b.id !== id);
+  saveLibrary(books);
+  return books;
+};
@@ -0,0 +1,250 @@
+import { CoachDrill, CoachInput, CoachReport, CoachWeakness, ContentProviderId, FingerStats, KeyStats, NgramStats, SessionMetrics, WeaknessKind } from '../types';
+import { buildLessonText, buildWordStream } from './localContentService';
+import { FINGER_LABELS } from './fingerMap';
+import { KEY_ERROR_WARN } from './keyboardLayouts';
+import { rankNgrams } from './ngramService';
+import { createRng, hashSeed, Random } from './random';
+
+export const WEAKNESS_KINDS: WeaknessKind[] = ['key', 'ngram', 'finger', 'accuracy', 'speed', 'rhythm'];
+
+// Keys and fingers need this many strokes before their error rate means anything
+const MIN_KEY_SAMPLES = 5;
+const MIN_FINGER_SAMPLES = 20;
+const MAX_WEAKNESSES = 5;
+const MIN_DRILLS = 2;
+const MAX_DRILLS = 3;
+const DRILL_WORDS = 35;
+// Model drills outside this range are replaced with generated text
+const DRILL_WORD_RANGE = [12, 120];
+const TARGET_ACCURACY = 95;
+const TARGET_CONSISTENCY = 75;
+const TARGET_WPM = 40;
+
+// The weakest spots of the long-running stats, alongside the session that just finished
+export const buildCoachInput = (
+  metrics: SessionMetrics,
+  keyStats: Record<string, KeyStats>,
+  ngramStats: Record<string, NgramStats>,
+  fingerStats: Record<string, FingerStats>
+): CoachInput => {
+  const keys: KeyStats[] = Object.values(keyStats);
+  const fingers: FingerStats[] = Object.values(fingerStats);
+  const ngrams = [...rankNgrams(ngramStats, 'errors', 4), ...rankNgrams(ngramStats, 'latency', 4)];
+  return {
+    wpm: metrics.netWpm,
+    accuracy: metrics.accuracy,
+    consistency: metrics.consistency,
+    weakKeys: keys
+      .filter(k => k.char.trim() && k.total >= MIN_KEY_SAMPLES && k.errors / k.total > KEY_ERROR_WARN)
+      .map(k => ({ key: k.char, errorRate: Math.round((k.errors / k.total) * 100), samples: k.total }))
+      .sort((a, b) => b.errorRate - a.errorRate)
+      .slice(0, 5),
+    weakNgrams: ngrams
+      .filter((n, i) => ngrams.findIndex(other => other.ngram === n.ngram) === i)
+      .map(n => ({ ngram: n.ngram, errorRate: n.errorRate, msPerKey: n.msPerKey })),
+    weakFingers: fingers
+      .filter(f => f.total >= MIN_FINGER_SAMPLES)
+      .map(f => ({
+        finger: f.finger,
+        errorRate: Math.round((f.errors / f.total) * 100),
+        msPerKey: f.latencySamples > 0 ? Math.round(f.latencyTotal / f.latencySamples) : 0,
+      }))
+      .sort((a, b) => b.errorRate - a.errorRate || b.msPerKey - a.msPerKey)
+      .slice(0, 3),
+  };
+};
+
+interface RankedWeakness extends CoachWeakness {
+  severity: number;
+}
+
+// Every candidate gets a severity on a rough 0-100 scale so keys, transitions and
+// session-wide habits can be ranked against each other
+const rankWeaknesses = (input: CoachInput): RankedWeakness[] => {
+  // Milliseconds per key at the session's own pace; slow transitions are judged against it
+  const paceMs = input.wpm > 0 ? 12000 / input.wpm : 0;
+  const candidates: RankedWeakness[] = [
+    ...input.weakKeys.map(k => ({
+      kind: 'key' as const,
+      target: k.key,
+      reason: `${k.errorRate}% of ${k.samples} strokes missed`,
+      severity: k.errorRate,
+    })),
+    ...input.weakNgrams.map(n => {
+      const slowdown = paceMs > 0 ? n.msPerKey / paceMs : 1;
+      return {
+        kind: 'ngram' as const,
+        target: n.ngram,
+        reason: n.errorRate > 0
+          ? `${n.errorRate}% errors across the transition`
+          : `${n.msPerKey} ms per key, ${slowdown.toFixed(1)}x your pace`,
+        severity: Math.max(n.errorRate, (slowdown - 1) * 40),
+      };
+    }),
+    ...input.weakFingers
+      .filter(f => f.errorRate > 0)
+      .map(f => ({
+        kind: 'finger' as const,
+        target: FINGER_LABELS[f.finger],
+        reason: `${f.errorRate}% of its strokes missed`,
+        severity: f.errorRate * 0.8,
+      })),
+  ];
+  if (input.accuracy < TARGET_ACCURACY) candidates.push({
+    kind: 'accuracy',
+    target: 'accuracy',
+    reason: `${input.accuracy}% accuracy; every fix costs more than typing it right`,
+    severity: (TARGET_ACCURACY - input.accuracy) * 4,
+  });
+  if (input.consistency < TARGET_CONSISTENCY) candidates.push({
+    kind: 'rhythm',
+    target: 'rhythm',
+    reason: `${input.consistency}% consistency; bursts and pauses instead of an even pace`,
+    severity: (TARGET_CONSISTENCY - input.consistency) * 1.5,
+  });
+  if (input.accuracy >= TARGET_ACCURACY && input.wpm < TARGET_WPM) candidates.push({
+    kind: 'speed',
+    target: 'speed',
+    reason: `${input.wpm} WPM with accuracy to spare`,
+    severity: TARGET_WPM - input.wpm,
+  });
+  return candidates.filter(c => c.severity > 0).sort((a, b) => b.severity - a.severity);
+};
+
+const HEADLINES: Record<WeaknessKind, string> = {
+  key: 'a handful of keys cost you most of your mistakes.',
+  ngram: 'certain letter transitions trip you up more than single keys.',
+  finger: 'one finger is doing worse than the rest.',
+  accuracy: 'accuracy is what holds you back right now.',
+  speed: 'you are accurate enough to start pushing the pace.',
+  rhythm: 'your pace comes in bursts; evening it out is the quickest win.',
+};
+
+const describe = (weakness: CoachWeakness) =>
+  weakness.kind === 'key' ? `the "${weakness.target}" key`
+    : weakness.kind === 'ngram' ? `the "${weakness.target}" transition`
+      : weakness.kind === 'finger' ? `your ${weakness.target}`
+        : weakness.target;
+
+const drillText = (focusKeys: string[], focusNgrams: string[], difficulty: string, random: Random) =>
+  buildLessonText(focusKeys, difficulty, 'general', focusNgrams, random, DRILL_WORDS);
+
+// Same numbers, same report: the seed comes from the input itself
+export const buildCoachReport = (input: CoachInput): CoachReport => {
+  const random = createRng(hashSeed(JSON.stringify(input)));
+  const ranked = rankWeaknesses(input);
+  const top = ranked[0];
+
+  const diagnosis = top
+    ? `${input.wpm} WPM at ${input.accuracy}% accuracy: ${HEADLINES[top.kind]} Biggest single leak: ${describe(top)} (${top.reason}).`
+    : `${input.wpm} WPM at ${input.accuracy}% accuracy with no clear weak spot. Time to raise the difficulty.`;
+
+  const keys = input.weakKeys.slice(0, 4).map(k => k.key);
+  const ngrams = input.weakNgrams.slice(0, 4).map(n => n.ngram);
+  const candidates: CoachDrill[] = [];
+  if (keys.length > 0) candidates.push({
+    title: `Key Drill: ${keys.join(' ')}`,
+    goal: 'Hit these keys cleanly at a slow, even pace.',
+    focusKeys: keys,
+    focusNgrams: [],
+    text: drillText(keys, [], 'Beginner', random),
+  });
+  if (ngrams.length > 0) candidates.push({
+    title: `Transitions: ${ngrams.map(n => n.trim()).join(' ')}`,
+    goal: 'Type each sequence as one motion instead of separate keys.',
+    focusKeys: [],
+    focusNgrams: ngrams,
+    text: drillText([], ngrams, 'Intermediate', random),
+  });
+  if (input.accuracy < TARGET_ACCURACY || input.consistency < TARGET_CONSISTENCY) candidates.push({
+    title: 'Steady Tempo',
+    goal: 'Common words at a pace you can hold without a single fix.',
+    focusKeys: [],
+    focusNgrams: [],
+    text: buildWordStream(DRILL_WORDS, random).join(' '),
+  });
+  candidates.push({
+    title: 'Speed Stretch',
+    goal: 'Push a little past your comfortable speed with full sentences.',
+    focusKeys: keys,
+    focusNgrams: ngrams,
+    text: drillText(keys, ngrams, 'Advanced', random),
+  });
+  candidates.push({
+    title: 'Flow Warm-up',
+    goal: 'Loosen up on plain words before the harder drills.',
+    focusKeys: [],
+    focusNgrams: [],
+    text: buildWordStream(DRILL_WORDS, random).join(' '),
+  });
+
+  return {
+    diagnosis,
+    weaknesses: ranked.slice(0, MAX_WEAKNESSES).map(({ kind, target, reason }) => ({ kind, target, reason })),
+    drills: candidates.slice(0, MAX_DRILLS),
+    source: 'local',
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cleanString = (value: unknown, maxLength: number) =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, maxLength) : '';
+
+const stringList = (value: unknown, accept: (item: string) => boolean) =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.filter((item): item is string => typeof item === 'string' && accept(item))))
+    : [];
+
+// Plain typeable text only: markdown markers and control characters are dropped
+const cleanDrillText = (value: unknown) =>
+  typeof value === 'string'
+    ? value.replace(/[*_#`]|\p{Cc}/gu, ' ').replace(/\s+/g, ' ').trim()
+    : '';
+
+// Accepts a model response only if it has the report's shape. Individual bad entries are
+// dropped, and drill text that is missing or the wrong length is regenerated from its focus.
+export const validateCoachReport = (
+  raw: unknown,
+  input: CoachInput,
+  source: ContentProviderId
+): CoachReport | null => {
+  if (!isRecord(raw)) return null;
+  const diagnosis = cleanString(raw.diagnosis, 400);
+  if (!diagnosis || !Array.isArray(raw.weaknesses) || !Array.isArray(raw.drills)) return null;
+
+  const weaknesses: CoachWeakness[] = raw.weaknesses
+    .filter(isRecord)
+    .map(w => ({
+      kind: w.kind as WeaknessKind,
+      target: cleanString(w.target, 24),
+      reason: cleanString(w.reason, 160),
+    }))
+    .filter(w => WEAKNESS_KINDS.includes(w.kind) && w.target && w.reason)
+    .slice(0, MAX_WEAKNESSES);
+
+  const random = createRng(hashSeed(JSON.stringify(input)));
+  const drills: CoachDrill[] = raw.drills
+    .filter(isRecord)
+    .map(d => {
+      const focusKeys = stringList(d.focusKeys, k => Array.from(k).length === 1 && k.trim() !== '').slice(0, 6);
+      const focusNgrams = stringList(d.focusNgrams, n => n.length >= 2 && n.length <= 3).slice(0, 6);
+      const text = cleanDrillText(d.text);
+      const words = text.split(' ').filter(Boolean).length;
+      return {
+        title: cleanString(d.title, 48),
+        goal: cleanString(d.goal, 160),
+        focusKeys,
+        focusNgrams,
+        text: words >= DRILL_WORD_RANGE[0] && words <= DRILL_WORD_RANGE[1]
+          ? text
+          : drillText(focusKeys, focusNgrams, 'Intermediate', random),
+      };
+    })
+    .filter(d => d.title)
+    .slice(0, MAX_DRILLS);
+  if (drills.length < MIN_DRILLS) return null;
+
+  return { diagnosis, weaknesses, drills, source };
+};
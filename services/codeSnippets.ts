@@ -0,0 +1,266 @@
+import { CodeLanguage, CodeSnippet } from '../types';
+
+export const LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  typescript: 'TypeScript',
+  javascript: 'JavaScript',
+  python: 'Python',
+  go: 'Go',
+  rust: 'Rust',
+  c: 'C',
+};
+
+// Short, self-contained pieces of idiomatic code. Go snippets keep their tabs on
+// purpose: normalizeCode expands them to the configured width before typing.
+const SNIPPETS: CodeSnippet[] = [
+  {
+    id: 'ts-debounce',
+    language: 'typescript',
+    title: 'Debounce',
+    code: `export function debounce<T extends (...args: any[]) => void>(fn: T, wait = 200) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return (...args: Parameters<T>) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => fn(...args), wait);
+  };
+}`,
+  },
+  {
+    id: 'ts-result',
+    language: 'typescript',
+    title: 'Result Type',
+    code: `type Result<T, E = Error> = { ok: true; value: T } | { ok: false; error: E };
+
+export const tryParse = (json: string): Result<unknown> => {
+  try {
+    return { ok: true, value: JSON.parse(json) };
+  } catch (error) {
+    return { ok: false, error: error as Error };
+  }
+};`,
+  },
+  {
+    id: 'ts-group-by',
+    language: 'typescript',
+    title: 'Group By',
+    code: `export const groupBy = <T, K extends string>(items: T[], key: (item: T) => K) =>
+  items.reduce((acc, item) => {
+    const k = key(item);
+    (acc[k] ||= []).push(item);
+    return acc;
+  }, {} as Record<K, T[]>);`,
+  },
+  {
+    id: 'js-fetch-retry',
+    language: 'javascript',
+    title: 'Fetch With Retry',
+    code: `async function fetchWithRetry(url, attempts = 3) {
+  for (let i = 0; i < attempts; i++) {
+    const res = await fetch(url);
+    if (res.ok) return res.json();
+    await new Promise(r => setTimeout(r, 2 ** i * 100));
+  }
+  throw new Error("Request failed: " + url);
+}`,
+  },
+  {
+    id: 'js-event-emitter',
+    language: 'javascript',
+    title: 'Event Emitter',
+    code: `class Emitter {
+  #handlers = new Map();
+
+  on(event, fn) {
+    const list = this.#handlers.get(event) ?? [];
+    this.#handlers.set(event, [...list, fn]);
+    return () => this.off(event, fn);
+  }
+
+  emit(event, ...args) {
+    (this.#handlers.get(event) ?? []).forEach(fn => fn(...args));
+  }
+}`,
+  },
+  {
+    id: 'py-word-count',
+    language: 'python',
+    title: 'Word Count',
+    code: `from collections import Counter
+import re
+
+def top_words(text: str, n: int = 10) -> list[tuple[str, int]]:
+    """Return the n most common words, ignoring case."""
+    words = re.findall(r"[a-z']+", text.lower())
+    return Counter(words).most_common(n)`,
+  },
+  {
+    id: 'py-dataclass',
+    language: 'python',
+    title: 'Dataclass',
+    code: `from dataclasses import dataclass, field
+
+@dataclass(order=True)
+class Task:
+    priority: int
+    name: str = field(compare=False)
+    tags: list[str] = field(default_factory=list, compare=False)
+
+    def is_urgent(self) -> bool:
+        return self.priority <= 1 and "blocked" not in self.tags`,
+  },
+  {
+    id: 'py-binary-search',
+    language: 'python',
+    title: 'Binary Search',
+    code: `def binary_search(items, target):
+    lo, hi = 0, len(items) - 1
+    while lo <= hi:
+        mid = (lo + hi) // 2
+        if items[mid] == target:
+            return mid
+        if items[mid] < target:
+            lo = mid + 1
+        else:
+            hi = mid - 1
+    return -1`,
+  },
+  {
+    id: 'go-handler',
+    language: 'go',
+    title: 'HTTP Handler',
+    code: `func healthHandler(w http.ResponseWriter, r *http.Request) {
+	if r.Method != http.MethodGet {
+		http.Error(w, "method not allowed", http.StatusMethodNotAllowed)
+		return
+	}
+	w.Header().Set("Content-Type", "application/json")
+	json.NewEncoder(w).Encode(map[string]string{"status": "ok"})
+}`,
+  },
+  {
+    id: 'go-worker-pool',
+    language: 'go',
+    title: 'Worker Pool',
+    code: `func process(jobs []int, workers int) []int {
+	in := make(chan int)
+	out := make(chan int, len(jobs))
+	var wg sync.WaitGroup
+	for i := 0; i < workers; i++ {
+		wg.Add(1)
+		go func() {
+			defer wg.Done()
+			for j := range in {
+				out <- j * j
+			}
+		}()
+	}
+	for _, j := range jobs {
+		in <- j
+	}
+	close(in)
+	wg.Wait()
+	close(out)
+	results := []int{}
+	for r := range out {
+		results = append(results, r)
+	}
+	return results
+}`,
+  },
+  {
+    id: 'rust-stack',
+    language: 'rust',
+    title: 'Generic Stack',
+    code: `pub struct Stack<T> {
+    items: Vec<T>,
+}
+
+impl<T> Stack<T> {
+    pub fn new() -> Self {
+        Stack { items: Vec::new() }
+    }
+
+    pub fn push(&mut self, item: T) {
+        self.items.push(item);
+    }
+
+    pub fn pop(&mut self) -> Option<T> {
+        self.items.pop()
+    }
+}`,
+  },
+  {
+    id: 'rust-parse',
+    language: 'rust',
+    title: 'Parse Config Line',
+    code: `fn parse_line(line: &str) -> Result<(String, i64), String> {
+    let (key, value) = line
+        .split_once('=')
+        .ok_or_else(|| format!("missing '=' in {}", line))?;
+    let value: i64 = value.trim().parse().map_err(|e| format!("{:?}", e))?;
+    Ok((key.trim().to_string(), value))
+}`,
+  },
+  {
+    id: 'c-strrev',
+    language: 'c',
+    title: 'Reverse String',
+    code: `#include <string.h>
+
+void reverse(char *s) {
+    size_t len = strlen(s);
+    for (size_t i = 0; i < len / 2; i++) {
+        char tmp = s[i];
+        s[i] = s[len - 1 - i];
+        s[len - 1 - i] = tmp;
+    }
+}`,
+  },
+  {
+    id: 'c-linked-list',
+    language: 'c',
+    title: 'Linked List Push',
+    code: `struct node {
+    int value;
+    struct node *next;
+};
+
+struct node *push(struct node *head, int value) {
+    struct node *n = malloc(sizeof *n);
+    if (!n) return head;
+    n->value = value;
+    n->next = head;
+    return n;
+}`,
+  },
+];
+
+export const snippetsFor = (language: CodeLanguage) => SNIPPETS.filter(s => s.language === language);
+
+export const randomSnippet = (language: CodeLanguage, random: () => number = Math.random): CodeSnippet => {
+  const pool = snippetsFor(language);
+  return pool[Math.floor(random() * pool.length)];
+};
+
+// Typing runs on a canonical form: Unix newlines, tabs expanded to the configured
+// width, no trailing whitespace and no blank lines at either end
+export const normalizeCode = (code: string, tabWidth: number): string =>
+  code
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.replace(/^\t+/, tabs => ' '.repeat(tabs.length * tabWidth)).replace(/\t/g, ' ').trimEnd())
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '');
+
+// The run of indentation starting at `index`, which Enter can fill in automatically
+export const indentationAt = (text: string, index: number): string => {
+  const match = /^ +/.exec(text.slice(index));
+  return match ? match[0] : '';
+};
+
+const EXTENSIONS: Record<string, CodeLanguage> = {
+  ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+  py: 'python', go: 'go', rs: 'rust', c: 'c', h: 'c',
+};
+
+export const languageForFile = (fileName: string): CodeLanguage | null =>
+  EXTENSIONS[fileName.split('.').pop()?.toLowerCase() || ''] || null;
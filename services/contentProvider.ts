@@ -0,0 +1,26 @@
+import { ContentProvider, ContentProviderId } from '../types';
+import { geminiProvider, hasGeminiKey } from './geminiService';
+import { localProvider } from './localContentService';
+
+const STORAGE_KEY = 'typeneon:provider';
+
+export const PROVIDERS: Record<ContentProviderId, ContentProvider> = {
+  gemini: geminiProvider,
+  local: localProvider,
+};
+
+export const isProviderAvailable = (id: ContentProviderId) => id !== 'gemini' || hasGeminiKey();
+
+// Without an API key the app always runs on the offline generator
+export const loadProviderId = (): ContentProviderId => {
+  const stored = localStorage.getItem(STORAGE_KEY) as ContentProviderId | null;
+  if (stored && stored in PROVIDERS && isProviderAvailable(stored)) return stored;
+  return hasGeminiKey() ? 'gemini' : 'local';
+};
+
+export const saveProviderId = (id: ContentProviderId) => {
+  localStorage.setItem(STORAGE_KEY, id);
+};
+
+export const getProvider = (id: ContentProviderId): ContentProvider =>
+  isProviderAvailable(id) ? PROVIDERS[id] : localProvider;
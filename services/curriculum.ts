@@ -0,0 +1,126 @@
+import { KeyboardLayout, LayoutId, LessonConfig, LessonProgress, PassCriteria } from '../types';
+import { buildDrillText } from './localContentService';
+import { charsForCodes, DEFAULT_LAYOUT_ID, getLayout } from './keyboardLayouts';
+
+// Letter lessons are defined by physical key (KeyboardEvent.code) so the same path
+// teaches the home row of whichever layout is selected. Numbers and punctuation are
+// defined by character since every layout can produce them; capitals are whatever
+// capital letters the layout's shift level carries.
+interface LessonTemplate {
+  id: string;
+  unit: string;
+  difficulty: LessonConfig['difficulty'];
+  passCriteria: PassCriteria;
+  codes?: string[];
+  chars?: string[];
+  capitals?: boolean;
+  title?: string;
+}
+
+const HOME: PassCriteria = { minWpm: 15, minAccuracy: 90 };
+const TOP: PassCriteria = { minWpm: 20, minAccuracy: 92 };
+const BOTTOM: PassCriteria = { minWpm: 25, minAccuracy: 92 };
+const NUMBERS: PassCriteria = { minWpm: 25, minAccuracy: 90 };
+const SYMBOLS: PassCriteria = { minWpm: 30, minAccuracy: 92 };
+const CAPITALS: PassCriteria = { minWpm: 30, minAccuracy: 95 };
+
+// Ordered path from the home row outwards. Each lesson unlocks its keys on top of
+// every key introduced before it.
+const TEMPLATES: LessonTemplate[] = [
+  { id: 'home-fj', unit: 'Home Row', difficulty: 'Beginner', codes: ['KeyF', 'KeyJ'], passCriteria: HOME },
+  { id: 'home-dk', unit: 'Home Row', difficulty: 'Beginner', codes: ['KeyD', 'KeyK'], passCriteria: HOME },
+  { id: 'home-sl', unit: 'Home Row', difficulty: 'Beginner', codes: ['KeyS', 'KeyL'], passCriteria: HOME },
+  { id: 'home-a', unit: 'Home Row', difficulty: 'Beginner', codes: ['KeyA', 'Semicolon'], passCriteria: HOME },
+  { id: 'home-gh', unit: 'Home Row', difficulty: 'Beginner', codes: ['KeyG', 'KeyH'], passCriteria: HOME },
+  { id: 'top-ei', unit: 'Top Row', difficulty: 'Beginner', codes: ['KeyE', 'KeyI'], passCriteria: TOP },
+  { id: 'top-ru', unit: 'Top Row', difficulty: 'Beginner', codes: ['KeyR', 'KeyU'], passCriteria: TOP },
+  { id: 'top-ty', unit: 'Top Row', difficulty: 'Beginner', codes: ['KeyT', 'KeyY'], passCriteria: TOP },
+  { id: 'top-wo', unit: 'Top Row', difficulty: 'Beginner', codes: ['KeyW', 'KeyO'], passCriteria: TOP },
+  { id: 'top-qp', unit: 'Top Row', difficulty: 'Beginner', codes: ['KeyQ', 'KeyP'], passCriteria: TOP },
+  { id: 'bottom-vm', unit: 'Bottom Row', difficulty: 'Beginner', codes: ['KeyV', 'KeyM'], passCriteria: BOTTOM },
+  { id: 'bottom-cn', unit: 'Bottom Row', difficulty: 'Beginner', codes: ['KeyC', 'KeyB', 'KeyN'], passCriteria: BOTTOM },
+  { id: 'bottom-xz', unit: 'Bottom Row', difficulty: 'Beginner', codes: ['KeyX', 'KeyZ', 'Comma', 'Period', 'Slash'], passCriteria: BOTTOM },
+  { id: 'numbers-left', unit: 'Numbers', title: '1 to 5', difficulty: 'Intermediate', chars: ['1', '2', '3', '4', '5'], passCriteria: NUMBERS },
+  { id: 'numbers-right', unit: 'Numbers', title: '6 to 0', difficulty: 'Intermediate', chars: ['6', '7', '8', '9', '0'], passCriteria: NUMBERS },
+  { id: 'punct-basic', unit: 'Punctuation', title: 'Quotes and Dashes', difficulty: 'Intermediate', chars: ["'", '"', '-', '/'], passCriteria: SYMBOLS },
+  { id: 'punct-sentence', unit: 'Punctuation', title: 'Sentence Marks', difficulty: 'Intermediate', chars: ['!', '?', ':', '(', ')'], passCriteria: SYMBOLS },
+  { id: 'capitals', unit: 'Capitals', title: 'Shift and Capitals', difficulty: 'Advanced', capitals: true, passCriteria: CAPITALS },
+];
+
+// "F and J" for letters; punctuation reads better as a plain key list
+const describeKeys = (keys: string[]) => {
+  const labels = keys.map(k => k.toUpperCase());
+  if (labels.length < 2 || labels.some(l => !/^\p{L}$/u.test(l))) return labels.join(' ');
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+};
+
+const capitalsOf = (layout: KeyboardLayout) =>
+  layout.shiftRows.flatMap(row => Array.from(row)).filter(char => /^\p{Lu}$/u.test(char)).sort((a, b) => a.localeCompare(b));
+
+const lessonIdFor = (templateId: string, layoutId: LayoutId) =>
+  layoutId === DEFAULT_LAYOUT_ID ? templateId : `${layoutId}:${templateId}`;
+
+const compileCurriculum = (layout: KeyboardLayout): Omit<LessonConfig, 'text'>[] => {
+  const allowed: string[] = [' '];
+  return TEMPLATES.map(template => {
+    const newKeys = template.codes
+      ? charsForCodes(layout, template.codes)
+      : template.capitals ? capitalsOf(layout) : template.chars || [];
+    newKeys.forEach(k => { if (!allowed.includes(k)) allowed.push(k); });
+    return {
+      id: lessonIdFor(template.id, layout.id),
+      unit: template.unit,
+      title: template.title || describeKeys(newKeys),
+      difficulty: template.difficulty,
+      passCriteria: template.passCriteria,
+      allowedKeys: [...allowed],
+      focusKeys: newKeys,
+    };
+  });
+};
+
+const cache: Partial<Record<LayoutId, Omit<LessonConfig, 'text'>[]>> = {};
+
+export const getCurriculum = (layoutId: LayoutId): Omit<LessonConfig, 'text'>[] => {
+  if (!cache[layoutId]) cache[layoutId] = compileCurriculum(getLayout(layoutId));
+  return cache[layoutId]!;
+};
+
+export const CURRICULUM_UNITS = Array.from(new Set(TEMPLATES.map(t => t.unit)));
+
+// Drill text is regenerated on every launch so repeats never become memorisation
+export const buildLesson = (lessonId: string, layoutId: LayoutId): LessonConfig | null => {
+  const lesson = getCurriculum(layoutId).find(l => l.id === lessonId);
+  if (!lesson) return null;
+  return { ...lesson, text: buildDrillText(lesson.allowedKeys || [], lesson.focusKeys || []) };
+};
+
+export const isLessonUnlocked = (lessonId: string, progress: Record<string, LessonProgress>, layoutId: LayoutId) => {
+  const curriculum = getCurriculum(layoutId);
+  const index = curriculum.findIndex(l => l.id === lessonId);
+  if (index <= 0) return index === 0;
+  return Boolean(progress[curriculum[index - 1].id]?.passed);
+};
+
+export const getNextLessonId = (lessonId: string, layoutId: LayoutId): string | null => {
+  const curriculum = getCurriculum(layoutId);
+  const index = curriculum.findIndex(l => l.id === lessonId);
+  return index >= 0 && index < curriculum.length - 1 ? curriculum[index + 1].id : null;
+};
+
+export const meetsCriteria = (criteria: PassCriteria | undefined, wpm: number, accuracy: number) =>
+  !criteria || (wpm >= criteria.minWpm && accuracy >= criteria.minAccuracy);
+
+export const mergeProgress = (
+  previous: LessonProgress | undefined,
+  lessonId: string,
+  wpm: number,
+  accuracy: number,
+  passed: boolean
+): LessonProgress => ({
+  lessonId,
+  attempts: (previous?.attempts || 0) + 1,
+  bestWpm: Math.max(previous?.bestWpm || 0, wpm),
+  bestAccuracy: Math.max(previous?.bestAccuracy || 0, accuracy),
+  passed: Boolean(previous?.passed) || passed,
+});
@@ -0,0 +1,142 @@
+import { DailyResult, KeystrokeEvent, SegmentGrade } from '../types';
+import { buildGameWords, buildLessonText } from './localContentService';
+import { applyEvent, isDeletion } from './inputPolicy';
+import { createRng, hashSeed } from './random';
+import { TOPIC_BANKS } from './wordLists';
+
+const STORAGE_KEY = 'typeneon:daily';
+// Challenge #1 was this day; numbers make shared results easy to line up in chat
+const FIRST_DAY = '2025-01-01';
+const PASSAGE_WORDS = 40;
+const RAIN_POOL_SIZE = 60;
+const SEGMENTS = 10;
+
+export interface DailyChallenge {
+  date: string;
+  number: number;
+  topic: string;
+  passage: string;
+  rainWords: string[];
+  rainSeed: number;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const dateKey = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Whole days between two keys, counted on UTC midnights so DST changes cannot skew it
+const dayIndex = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / 86400000);
+};
+
+export const shiftDate = (key: string, days: number) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return dateKey(new Date(y, m - 1, d + days));
+};
+
+// Built only from the offline generator: the Gemini provider would give everyone different text
+export const buildDailyChallenge = (date: string): DailyChallenge => {
+  const random = createRng(hashSeed(`typeneon-daily:${date}`));
+  const topics = Object.keys(TOPIC_BANKS);
+  const topic = topics[Math.floor(random() * topics.length)];
+  return {
+    date,
+    number: dayIndex(date) - dayIndex(FIRST_DAY) + 1,
+    topic,
+    passage: buildLessonText([], 'Intermediate', topic, [], random, PASSAGE_WORDS),
+    rainWords: buildGameWords(RAIN_POOL_SIZE, random),
+    rainSeed: Math.floor(random() * 2 ** 32),
+  };
+};
+
+// Each tenth of the passage is clean, had a mistake that got fixed, or still has one
+export const gradeSegments = (events: KeystrokeEvent[], text: string): SegmentGrade[] => {
+  const size = Math.max(1, Math.ceil(text.length / SEGMENTS));
+  const count = Math.ceil(text.length / size);
+  const slipped = new Set<number>();
+  let input = '';
+  events.forEach(event => {
+    if (!isDeletion(event) && !event.correct) slipped.add(Math.floor(input.length / size));
+    input = applyEvent(input, event);
+  });
+  return Array.from({ length: count }, (_, segment) => {
+    const start = segment * size;
+    const typed = input.slice(start, start + size);
+    if (typed !== text.slice(start, start + size)) return 'missed';
+    return slipped.has(segment) ? 'corrected' : 'clean';
+  });
+};
+
+export const loadDailyResults = (): Record<string, DailyResult> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Failed to load daily results:", error);
+    return {};
+  }
+};
+
+export const saveDailyResults = (results: Record<string, DailyResult>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(results));
+  } catch (error) {
+    console.error("Failed to save daily results:", error);
+  }
+};
+
+// Only the first attempt at each part is kept; returns the updated results either way
+export const recordDailyResult = (
+  date: string,
+  part: Partial<Omit<DailyResult, 'date'>>
+): Record<string, DailyResult> => {
+  const results = loadDailyResults();
+  const current = results[date] || { date };
+  const next: DailyResult = {
+    ...current,
+    typing: current.typing || part.typing,
+    rain: current.rain || part.rain,
+  };
+  results[date] = next;
+  saveDailyResults(results);
+  return results;
+};
+
+// A day counts once its passage is typed. Today still being open does not break the streak.
+export const currentStreak = (results: Record<string, DailyResult>, today: string = dateKey()) => {
+  let day = results[today]?.typing ? today : shiftDate(today, -1);
+  let streak = 0;
+  while (results[day]?.typing) {
+    streak++;
+    day = shiftDate(day, -1);
+  }
+  return streak;
+};
+
+export const longestStreak = (results: Record<string, DailyResult>) => {
+  const days = Object.values(results)
+    .filter(r => r.typing)
+    .map(r => dayIndex(r.date))
+    .sort((a, b) => a - b);
+  let best = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && day === days[i - 1] + 1 ? run + 1 : 1;
+    best = Math.max(best, run);
+  });
+  return best;
+};
+
+const GRADE_SQUARES: Record<SegmentGrade, string> = { clean: '🟩', corrected: '🟨', missed: '🟥' };
+
+export const shareText = (challenge: DailyChallenge, result: DailyResult | undefined, streak: number) => {
+  const lines = [`TypeNeon Daily #${challenge.number}${streak > 1 ? ` 🔥${streak}` : ''}`];
+  if (result?.typing) {
+    lines.push(`⌨️ ${result.typing.wpm} wpm · ${result.typing.accuracy}%`);
+    lines.push(result.typing.grades.map(g => GRADE_SQUARES[g]).join(''));
+  }
+  if (result?.rain) lines.push(`🌧️ ${result.rain.score} pts · level ${result.rain.level}`);
+  return lines.join('\n');
+};
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { DailyResult, GameMode, HistoryData, SessionRecord, WordCard } from '../types';
+import { ArchiveStores, buildArchive, mergeDailyResults, mergeHistory, mergeProfile, mergeWordCards, newSessions, parseArchive } from './dataTransfer';
+import { DEFAULT_SETTINGS } from './settingsService';
+import { migrateHistory } from './storageService';
+
+const session = (id: string, timestamp: number): SessionRecord => ({
+  id,
+  mode: GameMode.TIMED,
+  timestamp,
+  stats: { wpm: 50, accuracy: 96, timeElapsed: 30, mistakes: 2, charsTyped: 125 },
+});
+
+const history = (sessions: SessionRecord[], total: number): HistoryData => ({
+  ...migrateHistory(null),
+  sessions,
+  keyStats: { a: { char: 'a', total, errors: 2 } },
+  ngramStats: { th: { ngram: 'th', total, errors: 1, latencyTotal: total * 100 } },
+  fingerStats: { 'left-pinky': { finger: 'left-pinky', total, errors: 2, latencyTotal: total * 100, latencySamples: total } },
+  shiftStats: { total, oppositeHand: total / 2 },
+  lessonProgress: { l1: { lessonId: 'l1', attempts: 2, bestWpm: 40, bestAccuracy: 95, passed: false } },
+});
+
+const card = (word: string, seen: number, due: string): WordCard =>
+  ({ word, seen, errors: 1, slow: 0, ease: 2.5, interval: 1, repetitions: 0, due });
+
+const stores = (h: HistoryData, extra: Partial<ArchiveStores> = {}): ArchiveStores => ({
+  history: h,
+  daily: {},
+  profile: { xp: 0, unlocked: {} },
+  words: {},
+  ...extra,
+});
+
+// The parsed JSON of an export file
+const rawArchive = (h: HistoryData, extra: Partial<ArchiveStores> = {}) =>
+  JSON.parse(JSON.stringify(buildArchive(stores(h, extra), DEFAULT_SETTINGS)));
+
+const exported = (h: HistoryData, extra: Partial<ArchiveStores> = {}) => parseArchive(rawArchive(h, extra));
+
+describe('mergeHistory', () => {
+  it('changes nothing when the same archive is imported twice', () => {
+    const archive = exported(history([session('s1', 1), session('s2', 2)], 10)).history;
+    const once = mergeHistory(migrateHistory(null), archive);
+    expect(once).toEqual(archive);
+    expect(mergeHistory(once, archive)).toEqual(once);
+  });
+
+  it('adds nothing from an archive whose sessions are all present', () => {
+    const local = history([session('s1', 1), session('s2', 2)], 10);
+    expect(mergeHistory(local, local)).toEqual(local);
+  });
+
+  it('sums the counts of disjoint histories', () => {
+    const merged = mergeHistory(history([session('a', 1)], 10), history([session('b', 2)], 6));
+    expect(merged.sessions.map(s => s.id)).toEqual(['a', 'b']);
+    expect(merged.keyStats.a).toEqual({ char: 'a', total: 16, errors: 4 });
+    expect(merged.shiftStats).toEqual({ total: 16, oppositeHand: 8 });
+    expect(merged.lessonProgress.l1.attempts).toBe(4);
+  });
+
+  it('adds counts in proportion to the sessions that are new', () => {
+    const merged = mergeHistory(
+      history([session('a', 1), session('b', 2)], 10),
+      history([session('b', 2), session('c', 3)], 10)
+    );
+    expect(merged.sessions.map(s => s.id)).toEqual(['a', 'b', 'c']);
+    expect(merged.keyStats.a.total).toBe(15);
+    expect(merged.fingerStats['left-pinky'].latencySamples).toBe(15);
+  });
+});
+
+describe('parseArchive', () => {
+  it('drops shift counts that are not numbers', () => {
+    const raw = rawArchive(history([session('s1', 1)], 10));
+    raw.history.shiftStats = { total: 'lots', oppositeHand: 3 };
+    expect(parseArchive(raw).history.shiftStats).toEqual({ total: 0, oppositeHand: 0 });
+  });
+
+  it('skips invalid sessions and counter rows', () => {
+    const raw = rawArchive(history([session('s1', 1)], 10));
+    raw.history.sessions.push({ id: 'bad' });
+    raw.history.keyStats.b = { char: 'b', total: null, errors: 0 };
+    const imported = parseArchive(raw);
+    expect(imported.skippedSessions).toBe(1);
+    expect(Object.keys(imported.history.keyStats)).toEqual(['a']);
+  });
+
+  it('leaves stores a version 1 archive did not carry', () => {
+    const raw = { ...rawArchive(history([], 0)), version: 1 };
+    delete raw.daily;
+    delete raw.profile;
+    delete raw.words;
+    expect(parseArchive(raw)).toMatchObject({ daily: null, profile: null, words: null });
+  });
+
+  it('keeps only well-formed daily results', () => {
+    const raw = rawArchive(history([], 0));
+    raw.daily = {
+      '2026-10-01': { date: '2026-10-01', typing: { wpm: 60, accuracy: 98, grades: ['clean', 'missed'] } },
+      '2026-10-02': { date: '2026-10-02', typing: { wpm: 60, accuracy: 98, grades: ['great'] }, rain: { score: 300, level: 2 } },
+      '2026-10-03': { date: '2026-10-03', rain: { score: 'high' } },
+      yesterday: { date: 'yesterday', rain: { score: 1, level: 1 } },
+    };
+    expect(parseArchive(raw).daily).toEqual({
+      '2026-10-01': { date: '2026-10-01', typing: { wpm: 60, accuracy: 98, grades: ['clean', 'missed'] } },
+      '2026-10-02': { date: '2026-10-02', rain: { score: 300, level: 2 } },
+    });
+  });
+
+  it('keeps only known achievements and a sane XP total', () => {
+    const raw = rawArchive(history([], 0));
+    raw.profile = { xp: -5, unlocked: { 'first-steps': 1000, 'made-up': 2000, 'wpm-40': 'today' } };
+    expect(parseArchive(raw).profile).toEqual({ xp: 0, unlocked: { 'first-steps': 1000 } });
+  });
+
+  it('keeps only well-formed word cards', () => {
+    const raw = rawArchive(history([], 0), { words: { the: card('the', 4, '2026-10-20') } });
+    raw.words.teh = card('teh', 2, 'soon');
+    raw.words.hte = { ...card('hte', 2, '2026-10-20'), ease: null };
+    raw.words.adn = card('and', 2, '2026-10-20');
+    expect(parseArchive(raw).words).toEqual({ the: card('the', 4, '2026-10-20') });
+  });
+});
+
+describe('mergeProfile', () => {
+  it('adds the XP of new sessions and achievements only', () => {
+    const local = history([session('a', 1)], 10);
+    const incoming = history([session('a', 1), session('b', 2)], 10);
+    const added = newSessions(local, incoming);
+    expect(added.map(s => s.id)).toEqual(['b']);
+
+    const merged = mergeProfile(
+      { xp: 100, unlocked: { 'first-steps': 5000 } },
+      { xp: 300, unlocked: { 'first-steps': 1000, 'wpm-40': 2000 } },
+      added
+    );
+    // 24 for the new session's correct words, 50 for the new achievement
+    expect(merged).toEqual({ xp: 174, unlocked: { 'first-steps': 1000, 'wpm-40': 2000 } });
+  });
+
+  it('changes nothing when the same profile is imported twice', () => {
+    const h = history([session('a', 1)], 10);
+    const profile = { xp: 300, unlocked: { 'first-steps': 1000 } };
+    expect(mergeProfile(profile, profile, newSessions(h, h))).toEqual(profile);
+  });
+});
+
+describe('mergeDailyResults', () => {
+  const typing = (wpm: number) => ({ wpm, accuracy: 100, grades: [] });
+
+  it('keeps the first attempt at each part of a day', () => {
+    const local: Record<string, DailyResult> = { '2026-10-01': { date: '2026-10-01', typing: typing(50) } };
+    const incoming: Record<string, DailyResult> = {
+      '2026-10-01': { date: '2026-10-01', typing: typing(70), rain: { score: 100, level: 1 } },
+      '2026-10-02': { date: '2026-10-02', typing: typing(65) },
+    };
+    const merged = mergeDailyResults(local, incoming);
+    expect(merged['2026-10-01']).toEqual({ date: '2026-10-01', typing: typing(50), rain: { score: 100, level: 1 } });
+    expect(merged['2026-10-02'].typing).toEqual(typing(65));
+    expect(mergeDailyResults(merged, incoming)).toEqual(merged);
+  });
+});
+
+describe('mergeWordCards', () => {
+  it('keeps the card that has seen the word more often', () => {
+    const local = { the: card('the', 4, '2026-10-20'), and: card('and', 2, '2026-10-22') };
+    const incoming = { the: card('the', 6, '2026-10-21'), and: card('and', 2, '2026-10-21'), of: card('of', 1, '2026-10-20') };
+    const merged = mergeWordCards(local, incoming);
+    expect(merged).toEqual({ the: incoming.the, and: local.and, of: incoming.of });
+    expect(mergeWordCards(merged, incoming)).toEqual(merged);
+  });
+});
@@ -0,0 +1,320 @@
+import { AppSettings, DailyResult, FingerStats, GameMode, HistoryData, KeyStats, LessonProgress, NgramStats, PlayerProfile, SessionRecord, WordCard } from '../types';
+import { migrateHistory, SCHEMA_VERSION } from './storageService';
+import { normalizeSettings } from './settingsService';
+import { ACHIEVEMENTS, sessionXp } from './achievements';
+
+const ARCHIVE_FORMAT = 'typeneon-archive';
+export const ARCHIVE_VERSION = 2;
+
+// The stores an archive carries besides settings
+export interface ArchiveStores {
+  history: HistoryData;
+  daily: Record<string, DailyResult>;
+  profile: PlayerProfile;
+  words: Record<string, WordCard>;
+}
+
+// Everything needed to rebuild the app's state in another browser
+export interface DataArchive extends ArchiveStores {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: AppSettings;
+}
+
+export interface ImportedData {
+  history: HistoryData;
+  daily: Record<string, DailyResult> | null; // null when the file predates the store
+  profile: PlayerProfile | null;
+  words: Record<string, WordCard> | null;
+  settings: AppSettings | null; // null when the file carried history only
+  skippedSessions: number;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const buildArchive = (stores: ArchiveStores, settings: AppSettings): DataArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...stores,
+  settings,
+});
+
+// --- Import ---
+
+const isValidSession = (session: any): session is SessionRecord =>
+  isObject(session) &&
+  typeof session.id === 'string' &&
+  isNumber(session.timestamp) &&
+  Object.values(GameMode).includes(session.mode) &&
+  isObject(session.stats) &&
+  isNumber(session.stats.wpm) &&
+  isNumber(session.stats.accuracy);
+
+// Counter maps keep only entries whose counts are numbers, so one bad row cannot poison totals
+const validCounters = <T>(map: Record<string, any>, fields: string[]): Record<string, T> =>
+  Object.fromEntries(Object.entries(map).filter(([, entry]) => isObject(entry) && fields.every(f => isNumber(entry[f]))));
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const SEGMENT_GRADES = ['clean', 'corrected', 'missed'];
+
+// A day keeps only the parts that are well formed; a day left with neither is dropped
+const validDailyResults = (map: unknown): Record<string, DailyResult> => {
+  if (!isObject(map)) return {};
+  const results: Record<string, DailyResult> = {};
+  Object.entries(map).forEach(([date, entry]) => {
+    if (!DATE_KEY.test(date) || !isObject(entry)) return;
+    const { typing, rain } = entry;
+    const result: DailyResult = { date };
+    if (isObject(typing) && isNumber(typing.wpm) && isNumber(typing.accuracy)
+      && Array.isArray(typing.grades) && typing.grades.every(g => SEGMENT_GRADES.includes(g))) {
+      result.typing = { wpm: typing.wpm, accuracy: typing.accuracy, grades: typing.grades };
+    }
+    if (isObject(rain) && isNumber(rain.score) && isNumber(rain.level)) {
+      result.rain = { score: rain.score, level: rain.level };
+    }
+    if (result.typing || result.rain) results[date] = result;
+  });
+  return results;
+};
+
+const validProfile = (raw: unknown): PlayerProfile => {
+  if (!isObject(raw)) return { xp: 0, unlocked: {} };
+  const unlocked = isObject(raw.unlocked) ? raw.unlocked : {};
+  return {
+    xp: isNumber(raw.xp) && raw.xp >= 0 ? Math.round(raw.xp) : 0,
+    unlocked: Object.fromEntries(
+      Object.entries(unlocked).filter(([id, at]) => ACHIEVEMENTS.some(a => a.id === id) && isNumber(at))
+    ),
+  };
+};
+
+const validWordCards = (map: unknown): Record<string, WordCard> =>
+  isObject(map)
+    ? Object.fromEntries(Object.entries(
+        validCounters<WordCard>(map, ['seen', 'errors', 'slow', 'ease', 'interval', 'repetitions'])
+      ).filter(([word, card]) => card.word === word && typeof card.due === 'string' && DATE_KEY.test(card.due)))
+    : {};
+
+// Older archives are upgraded step by step before validation. A bare history object, as
+// kept in localStorage before archives existed, is accepted as version 0.
+// v0 -> v1: history wrapped in an archive together with settings
+// v1 -> v2: daily challenge results, the XP profile and review word cards added; a v1 file
+// leaves them untouched
+const upgradeArchive = (raw: any): { history: unknown; daily: unknown; profile: unknown; words: unknown; settings: unknown } => {
+  if (raw.format === undefined && 'sessions' in raw) {
+    return { history: raw, daily: null, profile: null, words: null, settings: null };
+  }
+  if (raw.format !== ARCHIVE_FORMAT) throw new Error("This is not a TypeNeon data export");
+  if (!isNumber(raw.version) || raw.version > ARCHIVE_VERSION) {
+    throw new Error("This export comes from a newer version of TypeNeon");
+  }
+  if (raw.version < 2) return { history: raw.history, daily: null, profile: null, words: null, settings: raw.settings };
+  return { history: raw.history, daily: raw.daily, profile: raw.profile, words: raw.words, settings: raw.settings };
+};
+
+export const parseArchive = (raw: unknown): ImportedData => {
+  if (!isObject(raw)) throw new Error("The file does not contain a data export");
+  const upgraded = upgradeArchive(raw);
+  if (!isObject(upgraded.history)) throw new Error("The export has no history section");
+  if (isNumber(upgraded.history.version) && upgraded.history.version > SCHEMA_VERSION) {
+    throw new Error("The history in this export uses a newer schema");
+  }
+
+  const history = migrateHistory(upgraded.history);
+  const sessions = history.sessions.filter(isValidSession);
+  return {
+    history: {
+      ...history,
+      sessions,
+      keyStats: validCounters<KeyStats>(history.keyStats, ['total', 'errors']),
+      ngramStats: validCounters<NgramStats>(history.ngramStats, ['total', 'errors', 'latencyTotal']),
+      fingerStats: validCounters<FingerStats>(history.fingerStats, ['total', 'errors', 'latencyTotal', 'latencySamples']),
+      lessonProgress: validCounters<LessonProgress>(history.lessonProgress, ['attempts', 'bestWpm', 'bestAccuracy']),
+      shiftStats: isNumber(history.shiftStats.total) && isNumber(history.shiftStats.oppositeHand)
+        ? { total: history.shiftStats.total, oppositeHand: history.shiftStats.oppositeHand }
+        : { total: 0, oppositeHand: 0 },
+    },
+    daily: upgraded.daily === null ? null : validDailyResults(upgraded.daily),
+    profile: upgraded.profile === null ? null : validProfile(upgraded.profile),
+    words: upgraded.words === null ? null : validWordCards(upgraded.words),
+    settings: upgraded.settings ? normalizeSettings(upgraded.settings) : null,
+    skippedSessions: history.sessions.length - sessions.length,
+  };
+};
+
+export const readArchiveFile = async (file: File): Promise<ImportedData> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  return parseArchive(raw);
+};
+
+// --- Merge ---
+
+// Adds `share` of each incoming count to an entry kept locally; entries only the archive has
+// are taken as they are, since nothing local can already include them
+const sumCounters = <T extends Record<string, any>>(
+  a: Record<string, T>,
+  b: Record<string, T>,
+  fields: (keyof T)[],
+  share: number
+): Record<string, T> => {
+  const merged: Record<string, T> = { ...a };
+  Object.entries(b).forEach(([id, entry]) => {
+    const current = merged[id];
+    merged[id] = current
+      ? fields.reduce((acc, f) => ({ ...acc, [f]: (current[f] as number) + Math.round((entry[f] as number) * share) }), { ...current })
+      : entry;
+  });
+  return merged;
+};
+
+// Incoming sessions this browser has not recorded yet
+export const newSessions = (local: HistoryData, incoming: HistoryData): SessionRecord[] => {
+  const known = new Set(local.sessions.map(s => s.id));
+  return incoming.sessions.filter(s => !known.has(s.id));
+};
+
+// Combines data recorded on two machines. Sessions are matched by id, so importing the same
+// export twice adds no duplicate runs. Aggregate counts cannot be split per session, so the
+// archive's counts are added in proportion to the sessions that are new here: none when every
+// session is already present, all of them when none is.
+export const mergeHistory = (local: HistoryData, incoming: HistoryData): HistoryData => {
+  const added = newSessions(local, incoming);
+  const sessions = new Map<string, SessionRecord>();
+  [...local.sessions, ...added].forEach(s => sessions.set(s.id, s));
+  const share = incoming.sessions.length ? added.length / incoming.sessions.length : 1;
+
+  const lessonProgress: Record<string, LessonProgress> = { ...local.lessonProgress };
+  Object.values(incoming.lessonProgress).forEach(p => {
+    const current = lessonProgress[p.lessonId];
+    lessonProgress[p.lessonId] = current
+      ? {
+          lessonId: p.lessonId,
+          attempts: current.attempts + Math.round(p.attempts * share),
+          bestWpm: Math.max(current.bestWpm, p.bestWpm),
+          bestAccuracy: Math.max(current.bestAccuracy, p.bestAccuracy),
+          passed: current.passed || p.passed,
+        }
+      : p;
+  });
+
+  return {
+    version: local.version,
+    sessions: Array.from(sessions.values()).sort((a, b) => a.timestamp - b.timestamp),
+    keyStats: sumCounters(local.keyStats, incoming.keyStats, ['total', 'errors'], share),
+    ngramStats: sumCounters(local.ngramStats, incoming.ngramStats, ['total', 'errors', 'latencyTotal'], share),
+    fingerStats: sumCounters(local.fingerStats, incoming.fingerStats, ['total', 'errors', 'latencyTotal', 'latencySamples'], share),
+    shiftStats: {
+      total: local.shiftStats.total + Math.round(incoming.shiftStats.total * share),
+      oppositeHand: local.shiftStats.oppositeHand + Math.round(incoming.shiftStats.oppositeHand * share),
+    },
+    lessonProgress,
+  };
+};
+
+// Each part of a day keeps its first attempt, which is the one recorded here when both have it
+export const mergeDailyResults = (
+  local: Record<string, DailyResult>,
+  incoming: Record<string, DailyResult>
+): Record<string, DailyResult> => {
+  const merged = { ...local };
+  Object.values(incoming).forEach(result => {
+    const current = merged[result.date];
+    merged[result.date] = current
+      ? { date: result.date, typing: current.typing || result.typing, rain: current.rain || result.rain }
+      : result;
+  });
+  return merged;
+};
+
+// XP is added for the sessions and achievements that are new here, rather than summed, so a
+// profile imported twice earns nothing the second time. Achievements keep their first unlock.
+export const mergeProfile = (local: PlayerProfile, incoming: PlayerProfile, added: SessionRecord[]): PlayerProfile => {
+  const unlocked = { ...local.unlocked };
+  let xp = local.xp + added.reduce((sum, s) => sum + sessionXp(s), 0);
+  Object.entries(incoming.unlocked).forEach(([id, at]) => {
+    if (unlocked[id] === undefined) xp += ACHIEVEMENTS.find(a => a.id === id)?.xp || 0;
+    unlocked[id] = Math.min(unlocked[id] ?? at, at);
+  });
+  return { xp, unlocked };
+};
+
+// A card's review schedule cannot be combined with another's, so the one that has seen the
+// word more often wins, and on a tie the one reviewed further ahead
+export const mergeWordCards = (
+  local: Record<string, WordCard>,
+  incoming: Record<string, WordCard>
+): Record<string, WordCard> => {
+  const merged = { ...local };
+  Object.values(incoming).forEach(card => {
+    const current = merged[card.word];
+    if (!current || card.seen > current.seen || (card.seen === current.seen && card.due > current.due)) {
+      merged[card.word] = card;
+    }
+  });
+  return merged;
+};
+
+// --- CSV ---
+
+// Text starting like a formula is quoted with a leading apostrophe so spreadsheets show it as typed
+const csvCell = (value: unknown): string => {
+  const raw = value === undefined || value === null ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+
+export const sessionsToCsv = (sessions: SessionRecord[]) =>
+  toCsv(
+    ['id', 'date', 'mode', 'wpm', 'raw_wpm', 'accuracy', 'consistency', 'seconds', 'mistakes', 'chars', 'score', 'lesson', 'test', 'placement'],
+    sessions.map(s => [
+      s.id,
+      new Date(s.timestamp).toISOString(),
+      s.mode,
+      s.stats.wpm,
+      s.stats.rawWpm,
+      s.stats.accuracy,
+      s.stats.consistency,
+      Math.round(s.stats.timeElapsed * 10) / 10,
+      s.stats.mistakes,
+      s.stats.charsTyped,
+      s.score,
+      s.lessonId,
+      s.testConfig,
+      s.placement,
+    ])
+  );
+
+// Space is spelled out so it survives spreadsheet import
+export const keyStatsToCsv = (keyStats: Record<string, KeyStats>) =>
+  toCsv(
+    ['key', 'total', 'errors', 'error_rate'],
+    Object.values(keyStats)
+      .sort((a, b) => b.total - a.total)
+      .map(k => [k.char === ' ' ? 'space' : k.char, k.total, k.errors, k.total ? (k.errors / k.total).toFixed(3) : 0])
+  );
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportFileName = (kind: string, extension: string) =>
+  `typeneon-${kind}-${new Date().toISOString().slice(0, 10)}.${extension}`;
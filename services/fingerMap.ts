@@ -0,0 +1,114 @@
+import { Finger, FingerStats, Hand, KeyboardLayout, ShiftStats } from '../types';
+import { ISO_KEY_CODE, locateChar, ROW_CODES } from './keyboardLayouts';
+
+// Standard touch-typing assignment per physical row (see ROW_CODES). Fingering follows
+// the physical key, so it is the same for every layout.
+const ROW_FINGERS: Finger[][] = [
+  ['left-pinky', 'left-pinky', 'left-ring', 'left-middle', 'left-index', 'left-index', 'right-index', 'right-index', 'right-middle', 'right-ring', 'right-pinky', 'right-pinky', 'right-pinky'],
+  ['left-pinky', 'left-ring', 'left-middle', 'left-index', 'left-index', 'right-index', 'right-index', 'right-middle', 'right-ring', 'right-pinky', 'right-pinky', 'right-pinky', 'right-pinky'],
+  ['left-pinky', 'left-ring', 'left-middle', 'left-index', 'left-index', 'right-index', 'right-index', 'right-middle', 'right-ring', 'right-pinky', 'right-pinky'],
+  ['left-pinky', 'left-ring', 'left-middle', 'left-index', 'left-index', 'right-index', 'right-index', 'right-middle', 'right-ring', 'right-pinky'],
+];
+
+export const FINGERS: Finger[] = [
+  'left-pinky', 'left-ring', 'left-middle', 'left-index', 'thumb',
+  'right-index', 'right-middle', 'right-ring', 'right-pinky',
+];
+
+export const FINGER_LABELS: Record<Finger, string> = {
+  'left-pinky': 'L Pinky',
+  'left-ring': 'L Ring',
+  'left-middle': 'L Middle',
+  'left-index': 'L Index',
+  'thumb': 'Thumbs',
+  'right-index': 'R Index',
+  'right-middle': 'R Middle',
+  'right-ring': 'R Ring',
+  'right-pinky': 'R Pinky',
+};
+
+export const FINGER_COLORS: Record<Finger, string> = {
+  'left-pinky': 'bg-rose-300 dark:bg-rose-800',
+  'left-ring': 'bg-amber-300 dark:bg-amber-700',
+  'left-middle': 'bg-lime-300 dark:bg-lime-800',
+  'left-index': 'bg-sky-300 dark:bg-sky-800',
+  'thumb': 'bg-slate-300 dark:bg-slate-600',
+  'right-index': 'bg-violet-300 dark:bg-violet-800',
+  'right-middle': 'bg-lime-300 dark:bg-lime-800',
+  'right-ring': 'bg-amber-300 dark:bg-amber-700',
+  'right-pinky': 'bg-rose-300 dark:bg-rose-800',
+};
+
+export const fingerAt = (row: number, index: number): Finger | null => ROW_FINGERS[row]?.[index] || null;
+
+export const fingerForCode = (code: string): Finger | null => {
+  if (code === 'Space') return 'thumb';
+  if (code === ISO_KEY_CODE) return 'left-pinky';
+  for (let row = 0; row < ROW_CODES.length; row++) {
+    const index = ROW_CODES[row].indexOf(code);
+    if (index !== -1) return ROW_FINGERS[row][index];
+  }
+  return null;
+};
+
+export const fingerForChar = (layout: KeyboardLayout, char: string): Finger | null => {
+  if (char === ' ') return 'thumb';
+  const location = locateChar(layout, char);
+  return location ? fingerForCode(location.code) : null;
+};
+
+export const handOf = (finger: Finger): Hand | null =>
+  finger.startsWith('left') ? 'left' : finger.startsWith('right') ? 'right' : null;
+
+export const recordFingerStroke = (
+  stats: Record<string, FingerStats>,
+  finger: Finger,
+  correct: boolean,
+  latency: number | null
+): Record<string, FingerStats> => {
+  const current = stats[finger] || { finger, total: 0, errors: 0, latencyTotal: 0, latencySamples: 0 };
+  return {
+    ...stats,
+    [finger]: {
+      ...current,
+      total: current.total + 1,
+      errors: correct ? current.errors : current.errors + 1,
+      latencyTotal: latency === null ? current.latencyTotal : current.latencyTotal + latency,
+      latencySamples: latency === null ? current.latencySamples : current.latencySamples + 1,
+    },
+  };
+};
+
+// Touch typists hold Shift with the hand that is not striking the key
+export const recordShiftUse = (stats: ShiftStats, keyHand: Hand, heldShifts: Set<string>): ShiftStats => {
+  const opposite = keyHand === 'left' ? 'ShiftRight' : 'ShiftLeft';
+  return {
+    total: stats.total + 1,
+    oppositeHand: heldShifts.has(opposite) ? stats.oppositeHand + 1 : stats.oppositeHand,
+  };
+};
+
+export interface HandSummary {
+  hand: Hand;
+  total: number;
+  errors: number;
+  avgLatency: number;
+  share: number; // percentage of all strokes
+}
+
+export const summarizeHands = (stats: Record<string, FingerStats>): HandSummary[] => {
+  const all = Object.values(stats);
+  const grandTotal = all.reduce((sum, s) => sum + s.total, 0);
+  return (['left', 'right'] as Hand[]).map(hand => {
+    const fingers = all.filter(s => handOf(s.finger) === hand);
+    const total = fingers.reduce((sum, s) => sum + s.total, 0);
+    const samples = fingers.reduce((sum, s) => sum + s.latencySamples, 0);
+    return {
+      hand,
+      total,
+      errors: fingers.reduce((sum, s) => sum + s.errors, 0),
+      avgLatency: samples > 0 ? Math.round(fingers.reduce((sum, s) => sum + s.latencyTotal, 0) / samples) : 0,
+      share: grandTotal > 0 ? Math.round((total / grandTotal) * 100) : 0,
+    };
+  });
+};
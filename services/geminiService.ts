@@ -1,73 +1,184 @@
 import { GoogleGenAI, Type } from "@google/genai";
+import { CoachInput, CoachReport, ContentProvider, LanguageId } from '../types';
+import { validateCoachReport, WEAKNESS_KINDS } from './coach';
+import { AiClient, AiRequestError, createRequestLayer, GenerateRequest, RequestLayer, RequestLayerOptions } from './aiRequestLayer';
+import { createMockAiClient } from './mockAiClient';
+import { getLanguagePack } from './languagePacks';
 
-// Initialize Gemini Client
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const MODEL = 'gemini-2.5-flash';
+const WORD_CACHE_TTL_MS = 30 * 60 * 1000;
 
-export const generateLessonContent = async (
-  focusKeys: string[],
-  difficulty: string,
-  topic: string = "technology"
-): Promise<string> => {
-  try {
-    const prompt = `
+// Setting AI_MOCK in .env.local swaps Gemini for the offline mock client
+const useMock = () => Boolean(process.env.AI_MOCK);
+
+export const hasGeminiKey = () => Boolean(process.env.API_KEY) || useMock();
+
+// The real client is only constructed on the first request, so the key is read then
+const geminiClient = (): AiClient => {
+  const genai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return {
+    generateContent: ({ model, contents, config }, signal) =>
+      genai.models.generateContent({ model, contents, config: { ...config, abortSignal: signal } }),
+  };
+};
+
+let layerOptions: RequestLayerOptions = {
+  timeoutMs: 15000,
+  retries: 2,
+  backoffMs: 1000,
+  requestsPerMinute: 10,
+  cacheSize: 20,
+};
+let layer: RequestLayer | null = null;
+const getLayer = () => {
+  if (!layer) layer = createRequestLayer(useMock() ? createMockAiClient().client : geminiClient(), layerOptions);
+  return layer;
+};
+
+// Points the provider at another client, e.g. a mock with scripted failures
+export const setAiClient = (client: AiClient) => {
+  layer = createRequestLayer(client, layerOptions);
+};
+
+export const configureAiRequests = (patch: Partial<RequestLayerOptions>) => {
+  layerOptions = { ...layerOptions, ...patch };
+  layer?.configure(patch);
+};
+
+const languageLine = (language: LanguageId) =>
+  language === 'en' ? '' : `Write the text in ${getLanguagePack(language).promptName}.`;
+
+const lessonRequest = (focusKeys: string[], difficulty: string, topic: string, focusNgrams: string[], language: LanguageId) => {
+  const ngramLine = focusNgrams.length > 0
+    ? `Make the text deliberately dense with these letter sequences (spaces are significant): ${focusNgrams.map(n => `"${n}"`).join(', ')}.`
+    : '';
+  const request: GenerateRequest = {
+    model: MODEL,
+    contents: `
       Create a typing practice text (plain text only, no markdown formatting).
       Difficulty: ${difficulty}.
       Topic: ${topic}.
       Focus heavily on using these keys: ${focusKeys.join(', ')}.
+      ${ngramLine}
+      ${languageLine(language)}
       Length: Approximately 40-60 words.
       Make it coherent and engaging.
-    `;
+    `,
+    config: {
+      temperature: 0.7,
+    },
+  };
+  return { key: `lesson:${JSON.stringify([focusKeys, difficulty, topic, focusNgrams, language])}`, request };
+};
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        temperature: 0.7,
-      }
-    });
+// A prefetched lesson is handed out once; asking again generates a fresh one
+export const generateLessonContent = async (
+  focusKeys: string[],
+  difficulty: string,
+  topic: string = "technology",
+  focusNgrams: string[] = [],
+  language: LanguageId = 'en'
+): Promise<string> => {
+  const { key, request } = lessonRequest(focusKeys, difficulty, topic, focusNgrams, language);
+  return getLayer().generate(key, request, { cache: 'consume' });
+};
 
-    return response.text?.trim() || "The quick brown fox jumps over the lazy dog.";
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "Error generating lesson. Please check your API key or try again later. The quick brown fox jumps over the lazy dog.";
-  }
+export const prefetchLessonContent = (
+  focusKeys: string[],
+  difficulty: string,
+  topic: string = "technology",
+  focusNgrams: string[] = [],
+  language: LanguageId = 'en'
+) => {
+  const { key, request } = lessonRequest(focusKeys, difficulty, topic, focusNgrams, language);
+  getLayer().prefetch(key, request);
 };
 
-export const generateTypingAdvice = async (
-  wpm: number,
-  accuracy: number,
-  weakKeys: string[]
-): Promise<string> => {
+const COACH_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    diagnosis: { type: Type.STRING },
+    weaknesses: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: WEAKNESS_KINDS },
+          target: { type: Type.STRING },
+          reason: { type: Type.STRING },
+        },
+        required: ['kind', 'target', 'reason'],
+      },
+    },
+    drills: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          goal: { type: Type.STRING },
+          focusKeys: { type: Type.ARRAY, items: { type: Type.STRING } },
+          focusNgrams: { type: Type.ARRAY, items: { type: Type.STRING } },
+          text: { type: Type.STRING },
+        },
+        required: ['title', 'goal', 'focusKeys', 'focusNgrams', 'text'],
+      },
+    },
+  },
+  required: ['diagnosis', 'weaknesses', 'drills'],
+  propertyOrdering: ['diagnosis', 'weaknesses', 'drills'],
+};
+
+export const generateCoachReport = async (input: CoachInput): Promise<CoachReport> => {
+  const prompt = `
+    You are a typing coach. These are the stats of a student (error rates are percentages,
+    latencies are milliseconds per key; n-grams may contain significant spaces):
+    ${JSON.stringify(input)}
+
+    Reply with:
+    - diagnosis: two or three plain sentences on what holds this student back most.
+    - weaknesses: up to five, most important first, each pointing at a key, n-gram or finger
+      from the stats above, or at overall accuracy, speed or rhythm.
+    - drills: two or three practice texts of 30-50 words that target those weaknesses.
+      Plain text only, no markdown, no line breaks.
+  `;
+
+  const text = await getLayer().generate(`coach:${JSON.stringify(input)}`, {
+    model: MODEL,
+    contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: COACH_SCHEMA,
+    },
+  });
+
+  let raw: unknown;
   try {
-    const prompt = `
-      You are a typing coach. Analyze these stats:
-      WPM: ${wpm}
-      Accuracy: ${accuracy}%
-      Weak Keys: ${weakKeys.join(', ') || 'None'}
-      
-      Give a very short (max 2 sentences), funny, and constructive tip to improve.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-    });
-
-    return response.text?.trim() || "Keep practicing! Accuracy is key to speed.";
+    raw = JSON.parse(text);
   } catch (error) {
-    return "Great job! Keep typing every day.";
+    throw new AiRequestError('invalid', error);
   }
+  const report = validateCoachReport(raw, input, 'gemini');
+  if (!report) throw new AiRequestError('invalid');
+  return report;
+};
+
+// One batch serves every Neon Rain game for a while; the engine shuffles it anyway
+export const generateGameWords = async (count: number = 20, language: LanguageId = 'en'): Promise<string[]> => {
+  const text = await getLayer().generate(`words:${count}:${language}`, {
+    model: MODEL,
+    contents: `Generate a list of ${count} random words for a typing game. Varying lengths. ${languageLine(language)} Return only the words separated by spaces or newlines. No numbering.`,
+  }, { cache: 'reuse', ttlMs: WORD_CACHE_TTL_MS });
+  const words = text.split(/\s+/).filter(w => w.length > 0).slice(0, count);
+  if (words.length === 0) throw new AiRequestError('invalid');
+  return words;
 };
 
-export const generateGameWords = async (count: number = 20): Promise<string[]> => {
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: `Generate a list of ${count} random words for a typing game. Varying lengths. Return only the words separated by spaces or newlines. No numbering.`,
-        });
-        const text = response.text || "";
-        return text.split(/\s+/).filter(w => w.length > 0).slice(0, count);
-    } catch (e) {
-        return ["space", "galaxy", "rocket", "planet", "star", "comet", "orbit", "laser", "alien", "moon"];
-    }
-}
+export const geminiProvider: ContentProvider = {
+  id: 'gemini',
+  label: 'Gemini AI',
+  generateLessonContent,
+  prefetchLessonContent,
+  generateGameWords,
+  generateCoachReport,
+};
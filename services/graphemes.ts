@@ -0,0 +1,31 @@
+// User-perceived characters. An accented letter, an emoji or a letter with combining
+// marks is one grapheme however many UTF-16 code units it takes, and the typing engine
+// compares, counts and deletes in graphemes.
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+  : null;
+
+// Code points are the fallback for browsers without Intl.Segmenter; they at least keep surrogate pairs whole
+export const splitGraphemes = (text: string): string[] =>
+  segmenter ? Array.from(segmenter.segment(text), s => s.segment) : Array.from(text);
+
+export const graphemeCount = (text: string) => splitGraphemes(text).length;
+
+// True for printable single characters; false for named keys such as "Enter" or "Dead"
+export const isSingleGrapheme = (key: string) => key.length > 0 && graphemeCount(key) === 1;
+
+export const dropLastGrapheme = (text: string) => {
+  const graphemes = splitGraphemes(text);
+  return text.slice(0, text.length - (graphemes[graphemes.length - 1]?.length ?? 0));
+};
+
+// Start offset (in code units) of each grapheme, plus the text length at the end
+export const graphemeOffsets = (graphemes: string[]): number[] => {
+  const offsets = [0];
+  graphemes.forEach(g => offsets.push(offsets[offsets.length - 1] + g.length));
+  return offsets;
+};
+
+// What keyboards and IMEs deliver, in the form passages are stored in. Japanese IMEs
+// type a full-width space outside of composition.
+export const normalizeTyped = (typed: string) => typed.normalize('NFC').replace(/\u3000/g, ' ');
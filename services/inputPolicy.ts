@@ -0,0 +1,46 @@
+import { ErrorPolicy, KeystrokeEvent } from '../types';
+import { dropLastGrapheme, splitGraphemes } from './graphemes';
+
+// Logged for Ctrl/Alt+Backspace; the word it removed is recomputed on playback
+export const WORD_BACKSPACE = 'WordBackspace';
+
+export const ERROR_POLICIES: Record<ErrorPolicy, { label: string; description: string }> = {
+  'free': { label: 'Free', description: 'Mistakes are marked and the caret moves on' },
+  'stop-on-error': { label: 'Stop on error', description: 'The caret waits until the correct key is pressed' },
+  'stop-on-word': { label: 'Stop on word', description: 'A word with mistakes must be fixed before moving to the next' },
+};
+
+const isBreak = (char: string | undefined) => char !== undefined && /\s/.test(char);
+
+// Grapheme index where the word under the caret begins
+const wordStart = (input: string[]) => {
+  let i = input.length;
+  while (i > 0 && !isBreak(input[i - 1])) i--;
+  return i;
+};
+
+// The word before the caret along with any whitespace after it, as editors do
+export const deleteWord = (input: string): string => input.replace(/\S*\s*$/, '');
+
+export const isDeletion = (event: KeystrokeEvent) => event.key === 'Backspace' || event.key === WORD_BACKSPACE;
+
+// Whether the grapheme `key` may land at the caret. Rejected keys are still logged as mistakes.
+export const acceptsKey = (policy: ErrorPolicy, input: string, text: string, key: string): boolean => {
+  const typed = splitGraphemes(input);
+  const target = splitGraphemes(text);
+  const expected = target[typed.length];
+  if (policy === 'stop-on-error') return key === expected;
+  if (policy === 'stop-on-word' && (isBreak(key) || isBreak(expected))) {
+    const start = wordStart(typed);
+    return key === expected && typed.slice(start).every((g, i) => g === target[start + i]);
+  }
+  return true;
+};
+
+// Replays and metrics rebuild the screen exactly as the typing handler changed it
+export const applyEvent = (input: string, event: KeystrokeEvent): string => {
+  if (event.rejected) return input;
+  if (event.key === 'Backspace') return dropLastGrapheme(input);
+  if (event.key === WORD_BACKSPACE) return deleteWord(input);
+  return input + event.key;
+};
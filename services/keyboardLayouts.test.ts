@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { fingerForChar } from './fingerMap';
+import { charForCode, getLayout, LAYOUTS, locateChar, ROW_CODES } from './keyboardLayouts';
+
+describe('LAYOUTS', () => {
+  it('lists one character per physical key on every level', () => {
+    Object.values(LAYOUTS).forEach(layout => {
+      [layout.rows, layout.shiftRows, layout.altGrRows || ROW_CODES.map(codes => ' '.repeat(codes.length))]
+        .forEach(rows => expect(rows.map(row => Array.from(row).length)).toEqual(ROW_CODES.map(codes => codes.length)));
+    });
+  });
+});
+
+describe('locateChar', () => {
+  it('finds base and shifted characters', () => {
+    expect(locateChar(getLayout('qwerty'), 'f')).toEqual({ row: 2, index: 3, code: 'KeyF', shift: false, altGr: false });
+    expect(locateChar(getLayout('qwerty'), '@')).toEqual({ row: 0, index: 2, code: 'Digit2', shift: true, altGr: false });
+  });
+
+  it('finds characters on the AltGr level', () => {
+    expect(locateChar(getLayout('qwertz'), '@')).toEqual({ row: 1, index: 0, code: 'KeyQ', shift: false, altGr: true });
+    expect(locateChar(getLayout('qwertz'), '{')).toMatchObject({ code: 'Digit7', altGr: true });
+    expect(locateChar(getLayout('azerty'), '@')).toMatchObject({ code: 'Digit0', altGr: true });
+    expect(locateChar(getLayout('spanish'), '[')).toMatchObject({ code: 'BracketLeft', altGr: true });
+  });
+
+  it('finds the ISO key left of Z', () => {
+    expect(locateChar(getLayout('azerty'), '<')).toEqual({ row: 3, index: -1, code: 'IntlBackslash', shift: false, altGr: false });
+    expect(locateChar(getLayout('qwertz'), '>')).toMatchObject({ code: 'IntlBackslash', shift: true });
+    expect(locateChar(getLayout('qwertz'), '|')).toMatchObject({ code: 'IntlBackslash', altGr: true });
+    expect(charForCode(getLayout('qwertz'), 'IntlBackslash', true)).toBe('>');
+  });
+
+  it('never takes a space for an empty AltGr slot', () => {
+    expect(locateChar(getLayout('qwertz'), ' ')).toBeNull();
+  });
+
+  it('gives AltGr and ISO characters the finger of their key', () => {
+    expect(fingerForChar(getLayout('qwertz'), '@')).toBe('left-pinky');
+    expect(fingerForChar(getLayout('azerty'), '<')).toBe('left-pinky');
+    expect(fingerForChar(getLayout('qwertz'), ']')).toBe('right-ring');
+  });
+});
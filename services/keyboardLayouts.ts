@@ -0,0 +1,135 @@
+import { KeyboardLayout, KeyLocation, LayoutId } from '../types';
+
+// Physical key codes (KeyboardEvent.code) for the four character rows of an ANSI board.
+// Every layout below lists exactly one character per code, in the same order, on each level.
+export const ROW_CODES: string[][] = [
+  ['Backquote', 'Digit1', 'Digit2', 'Digit3', 'Digit4', 'Digit5', 'Digit6', 'Digit7', 'Digit8', 'Digit9', 'Digit0', 'Minus', 'Equal'],
+  ['KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT', 'KeyY', 'KeyU', 'KeyI', 'KeyO', 'KeyP', 'BracketLeft', 'BracketRight', 'Backslash'],
+  ['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK', 'KeyL', 'Semicolon', 'Quote'],
+  ['KeyZ', 'KeyX', 'KeyC', 'KeyV', 'KeyB', 'KeyN', 'KeyM', 'Comma', 'Period', 'Slash'],
+];
+
+// The extra key of ISO boards, between left Shift and Z. It has no slot in ROW_CODES, so
+// locateChar reports it on the bottom row at index -1.
+export const ISO_KEY_CODE = 'IntlBackslash';
+export const ISO_KEY_INDEX = -1;
+
+export const HOME_ROW = 2;
+
+// Error rates at which the heatmap marks a key as weak (orange) and bad (red)
+export const KEY_ERROR_WARN = 0.1;
+export const KEY_ERROR_HIGH = 0.2;
+
+export const LAYOUTS: Record<LayoutId, KeyboardLayout> = {
+  qwerty: {
+    id: 'qwerty',
+    label: 'QWERTY',
+    rows: ['`1234567890-=', 'qwertyuiop[]\\', "asdfghjkl;'", 'zxcvbnm,./'],
+    shiftRows: ['~!@#$%^&*()_+', 'QWERTYUIOP{}|', 'ASDFGHJKL:"', 'ZXCVBNM<>?'],
+  },
+  dvorak: {
+    id: 'dvorak',
+    label: 'Dvorak',
+    rows: ['`1234567890[]', "',.pyfgcrl/=\\", 'aoeuidhtns-', ';qjkxbmwvz'],
+    shiftRows: ['~!@#$%^&*(){}', '"<>PYFGCRL?+|', 'AOEUIDHTNS_', ':QJKXBMWVZ'],
+  },
+  colemak: {
+    id: 'colemak',
+    label: 'Colemak',
+    rows: ['`1234567890-=', 'qwfpgjluy;[]\\', "arstdhneio'", 'zxcvbkm,./'],
+    shiftRows: ['~!@#$%^&*()_+', 'QWFPGJLUY:{}|', 'ARSTDHNEIO"', 'ZXCVBKM<>?'],
+  },
+  workman: {
+    id: 'workman',
+    label: 'Workman',
+    rows: ['`1234567890-=', 'qdrwbjfup;[]\\', "ashtgyneoi'", 'zxmcvkl,./'],
+    shiftRows: ['~!@#$%^&*()_+', 'QDRWBJFUP:{}|', 'ASHTGYNEOI"', 'ZXMCVKL<>?'],
+  },
+  azerty: {
+    id: 'azerty',
+    label: 'AZERTY (FR)',
+    rows: ['²&é"\'(-è_çà)=', 'azertyuiop^$*', 'qsdfghjklmù', 'wxcvbn,;:!'],
+    shiftRows: ['³1234567890°+', 'AZERTYUIOP¨£µ', 'QSDFGHJKLM%', 'WXCVBN?./§'],
+    altGrRows: ['  ~#{[|`\\^@]}', '  €        ¤ ', '           ', '          '],
+    intlBackslash: '<>',
+    deadKeyChars: 'âêîôûäëïöüÿÂÊÎÔÛÄËÏÖÜŸ',
+  },
+  qwertz: {
+    id: 'qwertz',
+    label: 'QWERTZ (DE)',
+    rows: ['^1234567890ß´', 'qwertzuiopü+#', 'asdfghjklöä', 'yxcvbnm,.-'],
+    shiftRows: ['°!"§$%&/()=?`', 'QWERTZUIOPÜ*\'', 'ASDFGHJKLÖÄ', 'YXCVBNM;:_'],
+    altGrRows: ['  ²³   {[]}\\ ', '@ €        ~ ', '           ', '      µ   '],
+    intlBackslash: '<>|',
+    deadKeyChars: 'áéíóúàèìòùâêîôûÁÉÍÓÚÀÈÌÒÙÂÊÎÔÛ',
+  },
+  // ISO Spanish; the ´ and ` keys are dead keys for accented vowels
+  spanish: {
+    id: 'spanish',
+    label: 'QWERTY (ES)',
+    rows: ['º1234567890\'¡', 'qwertyuiop`+ç', 'asdfghjklñ´', 'zxcvbnm,.-'],
+    shiftRows: ['ª!"·$%&/()=?¿', 'QWERTYUIOP^*Ç', 'ASDFGHJKLÑ¨', 'ZXCVBNM;:_'],
+    altGrRows: ['\\|@#~ ¬      ', '  €       []}', '          {', '          '],
+    intlBackslash: '<>',
+    deadKeyChars: 'áéíóúüàèìòùâêîôûÁÉÍÓÚÜÀÈÌÒÙÂÊÎÔÛ',
+  },
+  jcuken: {
+    id: 'jcuken',
+    label: 'ЙЦУКЕН (RU)',
+    rows: ['ё1234567890-=', 'йцукенгшщзхъ\\', 'фывапролджэ', 'ячсмитьбю.'],
+    shiftRows: ['Ё!"№;%:?*()_+', 'ЙЦУКЕНГШЩЗХЪ/', 'ФЫВАПРОЛДЖЭ', 'ЯЧСМИТЬБЮ,'],
+  },
+  // The ΄ key is a dead key for the tonos; Shift+W adds a dialytika as well
+  greek: {
+    id: 'greek',
+    label: 'Greek (EL)',
+    rows: ['`1234567890-=', ';ςερτυθιοπ[]\\', 'ασδφγηξκλ΄\'', 'ζχψωβνμ,./'],
+    shiftRows: ['~!@#$%^&*()_+', ':΅ΕΡΤΥΘΙΟΠ{}|', 'ΑΣΔΦΓΗΞΚΛ¨"', 'ΖΧΨΩΒΝΜ<>?'],
+    deadKeyChars: 'άέήίόύώΆΈΉΊΌΎΏϊϋΐΰΪΫ',
+  },
+};
+
+export const DEFAULT_LAYOUT_ID: LayoutId = 'qwerty';
+
+export const getLayout = (id: LayoutId): KeyboardLayout => LAYOUTS[id] || LAYOUTS[DEFAULT_LAYOUT_ID];
+
+// Character the target layout produces for a physical key, used to emulate a layout
+// the operating system is not set to. Returns null for keys outside the character rows.
+export const charForCode = (layout: KeyboardLayout, code: string, shift: boolean): string | null => {
+  for (let row = 0; row < ROW_CODES.length; row++) {
+    const index = ROW_CODES[row].indexOf(code);
+    if (index !== -1) return (shift ? layout.shiftRows : layout.rows)[row][index];
+  }
+  if (code === ISO_KEY_CODE && layout.intlBackslash) return layout.intlBackslash[shift ? 1 : 0];
+  if (code === 'Space') return ' ';
+  return null;
+};
+
+// Base and Shift levels are searched before AltGr, so a character on several levels is
+// located where it is easiest to type
+export const locateChar = (layout: KeyboardLayout, char: string): KeyLocation | null => {
+  for (let row = 0; row < ROW_CODES.length; row++) {
+    let index = layout.rows[row].indexOf(char);
+    if (index !== -1) return { row, index, code: ROW_CODES[row][index], shift: false, altGr: false };
+    index = layout.shiftRows[row].indexOf(char);
+    if (index !== -1) return { row, index, code: ROW_CODES[row][index], shift: true, altGr: false };
+  }
+  const iso = layout.intlBackslash ? Array.from(layout.intlBackslash).indexOf(char) : -1;
+  if (iso !== -1) {
+    return { row: ROW_CODES.length - 1, index: ISO_KEY_INDEX, code: ISO_KEY_CODE, shift: iso === 1, altGr: iso === 2 };
+  }
+  const altGrRows = char === ' ' ? [] : layout.altGrRows || [];
+  for (let row = 0; row < altGrRows.length; row++) {
+    const index = altGrRows[row].indexOf(char);
+    if (index !== -1) return { row, index, code: ROW_CODES[row][index], shift: false, altGr: true };
+  }
+  // Dead-key letters finish on the key of their base letter
+  if (layout.deadKeyChars?.includes(char)) {
+    const base = char.normalize('NFD').charAt(0);
+    return base !== char ? locateChar(layout, base) : null;
+  }
+  return null;
+};
+
+export const charsForCodes = (layout: KeyboardLayout, codes: string[]): string[] =>
+  codes.map(code => charForCode(layout, code, false)).filter((c): c is string => c !== null);
@@ -0,0 +1,150 @@
+import { LanguageId, LayoutId } from '../types';
+import { COMMON_WORDS } from './wordLists';
+
+// Vocabulary for generating practice text in languages other than English. English keeps
+// the part-of-speech templates in localContentService; every other pack builds sentences
+// from a frequency-ordered list of common words.
+export interface LanguagePack {
+  id: LanguageId;
+  label: string;
+  promptName: string; // how the AI prompt names the language and script
+  layoutId: LayoutId; // the layout most typists of the language use, offered when switching
+  words: string[];
+  capitalize: boolean; // sentences start with a capital letter
+  plainCapitals?: boolean; // capitals drop their accents, as French typists on AZERTY usually write them
+  sentenceEnd: string;
+  clauseBreak: string;
+  // Characters that arrive through an IME rather than from a key, so no layout can vouch for them
+  imeChars?: RegExp;
+}
+
+export const LANGUAGE_PACKS: Record<LanguageId, LanguagePack> = {
+  en: {
+    id: 'en',
+    label: 'English',
+    promptName: 'English',
+    layoutId: 'qwerty',
+    words: COMMON_WORDS,
+    capitalize: true,
+    sentenceEnd: '.',
+    clauseBreak: ',',
+  },
+  es: {
+    id: 'es',
+    label: 'Español',
+    promptName: 'Spanish',
+    layoutId: 'spanish',
+    words: [
+      'de', 'la', 'que', 'el', 'en', 'y', 'los', 'se', 'del', 'las', 'un', 'por', 'con', 'no', 'una',
+      'su', 'para', 'es', 'al', 'lo', 'como', 'más', 'pero', 'sus', 'le', 'ya', 'este', 'sí', 'porque',
+      'esta', 'entre', 'cuando', 'muy', 'sin', 'sobre', 'también', 'me', 'hasta', 'hay', 'donde',
+      'quien', 'desde', 'todo', 'nos', 'durante', 'todos', 'uno', 'les', 'contra', 'otros', 'ese',
+      'eso', 'ante', 'ellos', 'esto', 'antes', 'algunos', 'qué', 'unos', 'yo', 'otro', 'él', 'tanto',
+      'mucho', 'nada', 'poco', 'ella', 'estar', 'algo', 'nosotros', 'casa', 'tiempo', 'año', 'día',
+      'vida', 'mundo', 'país', 'niño', 'mañana', 'canción', 'corazón', 'árbol', 'ciudad', 'agua',
+      'camino', 'libro', 'trabajo', 'señor', 'pequeño', 'rápido', 'fácil', 'música', 'teléfono',
+      'lápiz', 'jardín', 'pingüino', 'vergüenza', 'montaña', 'sueño', 'último', 'número',
+    ],
+    capitalize: true,
+    sentenceEnd: '.',
+    clauseBreak: ',',
+  },
+  de: {
+    id: 'de',
+    label: 'Deutsch',
+    promptName: 'German',
+    layoutId: 'qwertz',
+    // Nouns keep their capital letter, as German spelling requires
+    words: [
+      'der', 'die', 'und', 'in', 'den', 'von', 'zu', 'das', 'mit', 'sich', 'des', 'auf', 'für', 'ist',
+      'im', 'dem', 'nicht', 'ein', 'eine', 'als', 'auch', 'es', 'an', 'werden', 'aus', 'er', 'hat',
+      'dass', 'sie', 'nach', 'wird', 'bei', 'einer', 'um', 'am', 'sind', 'noch', 'wie', 'einem', 'über',
+      'einen', 'so', 'zum', 'war', 'haben', 'nur', 'oder', 'aber', 'vor', 'zur', 'bis', 'mehr', 'durch',
+      'man', 'sein', 'wurde', 'schon', 'wenn', 'hier', 'schön', 'müssen', 'können', 'grün', 'weiß',
+      'süß', 'spät', 'hören', 'früh', 'natürlich', 'fröhlich', 'Zeit', 'Jahr', 'Haus', 'Straße', 'Tür',
+      'Mädchen', 'Größe', 'Fuß', 'Bär', 'Käse', 'Löwe', 'Wasser', 'Freund', 'Arbeit', 'Welt', 'Leben',
+      'Kind', 'Buch', 'Stadt', 'Weg', 'Abend', 'Morgen', 'Brücke', 'Küche', 'Schlüssel', 'Übung',
+    ],
+    capitalize: true,
+    sentenceEnd: '.',
+    clauseBreak: ',',
+  },
+  fr: {
+    id: 'fr',
+    label: 'Français',
+    promptName: 'French',
+    layoutId: 'azerty',
+    plainCapitals: true,
+    words: [
+      'le', 'de', 'un', 'être', 'et', 'à', 'il', 'avoir', 'ne', 'je', 'son', 'que', 'se', 'qui', 'ce',
+      'dans', 'en', 'du', 'elle', 'au', 'pour', 'pas', 'vous', 'par', 'sur', 'faire', 'plus', 'dire',
+      'me', 'on', 'mon', 'lui', 'nous', 'comme', 'mais', 'pouvoir', 'avec', 'tout', 'aller', 'voir',
+      'bien', 'où', 'sans', 'tu', 'ou', 'leur', 'homme', 'si', 'deux', 'moi', 'vouloir', 'femme',
+      'venir', 'quand', 'grand', 'notre', 'devoir', 'là', 'jour', 'prendre', 'même', 'votre', 'rien',
+      'petit', 'encore', 'aussi', 'quelque', 'dont', 'mer', 'trouver', 'donner', 'temps', 'ça', 'peu',
+      'père', 'très', 'déjà', 'après', 'fenêtre', 'forêt', 'château', 'élève', 'été', 'âge', 'garçon',
+      'français', 'naïf', 'maïs', 'île', 'hôtel', 'fête', 'goût', 'bientôt', 'première', 'leçon',
+    ],
+    capitalize: true,
+    sentenceEnd: '.',
+    clauseBreak: ',',
+  },
+  ru: {
+    id: 'ru',
+    label: 'Русский',
+    promptName: 'Russian',
+    layoutId: 'jcuken',
+    words: [
+      'и', 'в', 'не', 'на', 'я', 'быть', 'он', 'с', 'что', 'а', 'по', 'это', 'она', 'этот', 'к', 'но',
+      'они', 'мы', 'как', 'из', 'у', 'который', 'то', 'за', 'свой', 'весь', 'год', 'от', 'так', 'о',
+      'для', 'ты', 'же', 'все', 'тот', 'мочь', 'вы', 'человек', 'такой', 'его', 'сказать', 'только',
+      'или', 'ещё', 'бы', 'себя', 'один', 'когда', 'уже', 'до', 'время', 'если', 'сам', 'нет',
+      'другой', 'вот', 'говорить', 'наш', 'мой', 'знать', 'стать', 'при', 'чтобы', 'дело', 'жизнь',
+      'кто', 'первый', 'очень', 'два', 'день', 'её', 'новый', 'рука', 'даже', 'раз', 'где', 'там',
+      'под', 'можно', 'какой', 'после', 'их', 'работа', 'без', 'самый', 'потом', 'надо', 'хотеть',
+      'слово', 'идти', 'большой', 'место', 'ёлка', 'щука', 'объём', 'съезд', 'эхо', 'юг', 'цифра',
+    ],
+    capitalize: true,
+    sentenceEnd: '.',
+    clauseBreak: ',',
+  },
+  el: {
+    id: 'el',
+    label: 'Ελληνικά',
+    promptName: 'Greek (monotonic)',
+    layoutId: 'greek',
+    words: [
+      'και', 'το', 'να', 'η', 'ο', 'της', 'του', 'σε', 'με', 'τα', 'για', 'την', 'δεν', 'που', 'από',
+      'θα', 'είναι', 'στο', 'τη', 'τον', 'οι', 'στην', 'ένα', 'των', 'μου', 'στα', 'αυτό', 'τους',
+      'μια', 'στον', 'σου', 'πολύ', 'όταν', 'αλλά', 'εγώ', 'μας', 'έχει', 'ήταν', 'κάτι', 'όλα', 'ότι',
+      'πως', 'τι', 'καλά', 'εδώ', 'τώρα', 'ακόμα', 'ξέρω', 'θέλω', 'σπίτι', 'μέρα', 'νερό', 'χρόνος',
+      'άνθρωπος', 'δρόμος', 'πόλη', 'φίλος', 'ζωή', 'ψωμί', 'θάλασσα', 'ουρανός', 'βιβλίο', 'παιδί',
+      'αγάπη', 'κόσμος', 'καιρός', 'ήλιος', 'νύχτα', 'ώρα', 'γλώσσα', 'πρωί', 'ρολόι', 'προϊόν',
+    ],
+    capitalize: true,
+    sentenceEnd: '.',
+    clauseBreak: ',',
+  },
+  ja: {
+    id: 'ja',
+    label: '日本語 (かな)',
+    promptName: 'Japanese, in hiragana and katakana only (no kanji), with a space between words',
+    layoutId: 'qwerty',
+    // Typed through a romaji IME; words are space-separated, as kana drills usually are
+    words: [
+      'わたし', 'あなた', 'これ', 'それ', 'あれ', 'ここ', 'そこ', 'いま', 'きょう', 'あした', 'きのう',
+      'ひと', 'やま', 'かわ', 'うみ', 'そら', 'はな', 'みず', 'ねこ', 'いぬ', 'とり', 'さかな', 'ほん',
+      'くるま', 'でんしゃ', 'がっこう', 'せんせい', 'ともだち', 'かぞく', 'いえ', 'へや', 'まど', 'あさ',
+      'ひる', 'よる', 'はる', 'なつ', 'あき', 'ふゆ', 'たべる', 'のむ', 'みる', 'きく', 'よむ', 'かく',
+      'はなす', 'あるく', 'はしる', 'おおきい', 'ちいさい', 'あたらしい', 'ふるい', 'たかい', 'やすい',
+      'はやい', 'おそい', 'いい', 'すし', 'てんぷら', 'コーヒー', 'テレビ', 'パン', 'カメラ', 'ノート',
+      'ペン', 'ラジオ', 'ホテル', 'タクシー', 'ゲーム', 'スポーツ', 'ニュース', 'メール',
+    ],
+    capitalize: false,
+    sentenceEnd: '。',
+    clauseBreak: '、',
+    imeChars: /[\p{Script=Hiragana}\p{Script=Katakana}ー。、]/u,
+  },
+};
+
+export const getLanguagePack = (id: LanguageId): LanguagePack => LANGUAGE_PACKS[id] || LANGUAGE_PACKS.en;
@@ -0,0 +1,256 @@
+import { ContentProvider, LanguageId } from '../types';
+import { COMMON_WORDS, GAME_WORDS, TOPIC_BANKS, WordBank } from './wordLists';
+import { Random } from './random';
+import { getLanguagePack, LANGUAGE_PACKS, LanguagePack } from './languagePacks';
+import { buildCoachReport } from './coach';
+
+// Sentence skeletons; each slot is filled from the topic word bank.
+// {N} noun, {V} verb, {A} adjective, {D} adverb, {NUM} number
+const TEMPLATES = [
+  'the {A} {N} {V} {D}',
+  'a {N} {V} near the {A} {N}',
+  'every {N} {V} when the {N} {V}',
+  '{D} the {N} {V} over a {A} {N}',
+  'the {N} {V} beside the {N} {D}',
+  'one {A} {N} {V} like a {A} {N}',
+  'the {N} {V} by the {N}',
+];
+
+const ADVANCED_CLAUSES = [
+  ', but the {N} {V} {D}',
+  ', while {NUM} {A} {N}s wait',
+  '; then the {N} {V} again',
+  ' (at least {NUM} times)',
+  ', so the "{A}" {N} {V}',
+];
+
+const pick = <T,>(items: T[], random: Random): T => items[Math.floor(random() * items.length)];
+
+const countOccurrences = (word: string, sequence: string) => {
+  let count = 0;
+  for (let i = word.indexOf(sequence); i !== -1; i = word.indexOf(sequence, i + 1)) count++;
+  return count;
+};
+
+// Weighted pick that favours words containing the requested focus keys and n-grams.
+// N-grams weigh more since a single word rarely holds more than one.
+const pickWord = (words: string[], focusKeys: string[], random: Random, focusNgrams: string[] = []): string => {
+  if (focusKeys.length === 0 && focusNgrams.length === 0) return pick(words, random);
+
+  const weights = words.map(word => {
+    const hits = word.split('').filter(ch => focusKeys.includes(ch)).length;
+    const ngramHits = focusNgrams.reduce((sum, ngram) => sum + countOccurrences(` ${word} `, ngram), 0);
+    return 1 + hits * 4 + ngramHits * 12;
+  });
+  const total = weights.reduce((a, b) => a + b, 0);
+  let roll = random() * total;
+  for (let i = 0; i < words.length; i++) {
+    roll -= weights[i];
+    if (roll <= 0) return words[i];
+  }
+  return words[words.length - 1];
+};
+
+const resolveBank = (topic: string): WordBank => {
+  const key = topic.toLowerCase();
+  return TOPIC_BANKS[key] || TOPIC_BANKS[Object.keys(TOPIC_BANKS).find(t => key.includes(t) || t.includes(key)) || 'general'];
+};
+
+const fillTemplate = (template: string, bank: WordBank, focusKeys: string[], random: Random, focusNgrams: string[] = []) =>
+  template.replace(/\{(N|V|A|D|NUM)\}/g, (_, slot: string) => {
+    switch (slot) {
+      case 'N': return pickWord(bank.nouns, focusKeys, random, focusNgrams);
+      case 'V': return pickWord(bank.verbs, focusKeys, random, focusNgrams);
+      case 'A': return pickWord(bank.adjectives, focusKeys, random, focusNgrams);
+      case 'D': return pickWord(bank.adverbs, focusKeys, random, focusNgrams);
+      default: return String(2 + Math.floor(random() * 98));
+    }
+  }).replace(/\b([aA]) (?=[aeiou])/g, '$1n ');
+
+const capitalize = (sentence: string) => sentence.charAt(0).toUpperCase() + sentence.slice(1);
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const WORD_POOL = Array.from(new Set([
+  ...COMMON_WORDS,
+  ...GAME_WORDS,
+  ...Object.values(TOPIC_BANKS).flatMap(bank => [...bank.nouns, ...bank.verbs, ...bank.adjectives, ...bank.adverbs]),
+]));
+
+// Curriculum drills on layouts for other alphabets find their real words among the language packs
+const PACK_WORDS = Array.from(new Set(Object.values(LANGUAGE_PACKS).flatMap(pack => pack.words)));
+
+// Words from the whole bundled vocabulary that contain one of the n-grams
+const ngramDrill = (focusNgrams: string[], random: Random, count: number) => {
+  const matches = WORD_POOL.filter(word => focusNgrams.some(ngram => ` ${word} `.includes(ngram)));
+  return matches.length > 0 ? Array.from({ length: count }, () => pickWord(matches, [], random, focusNgrams)) : [];
+};
+
+const capitalizeFor = (pack: LanguagePack, sentence: string) => {
+  if (!pack.capitalize) return sentence;
+  const [first = ''] = Array.from(sentence);
+  const upper = first.toUpperCase();
+  return (pack.plainCapitals ? upper.normalize('NFD').replace(/\p{M}/gu, '') : upper) + sentence.slice(first.length);
+};
+
+// Sentences of four to nine common words from a language pack; beginners get them without punctuation
+const buildPackText = (
+  pack: LanguagePack,
+  focusKeys: string[],
+  difficulty: string,
+  focusNgrams: string[],
+  random: Random,
+  targetWords: number
+): string => {
+  const sentences: string[] = [];
+  let count = 0;
+  while (count < targetWords) {
+    const length = Math.min(4 + Math.floor(random() * 6), targetWords - count);
+    const words = Array.from({ length }, () => pickWord(pack.words, focusKeys, random, focusNgrams));
+    count += length;
+    if (difficulty === 'Beginner') {
+      sentences.push(words.join(' '));
+      continue;
+    }
+    if (difficulty === 'Advanced' && length > 4) words[1 + Math.floor(random() * (length - 2))] += pack.clauseBreak;
+    sentences.push(capitalizeFor(pack, words.join(' ')) + pack.sentenceEnd);
+  }
+  return sentences.join(' ');
+};
+
+export const buildLessonText = (
+  focusKeys: string[],
+  difficulty: string,
+  topic: string = 'general',
+  focusNgrams: string[] = [],
+  random: Random = Math.random,
+  targetWords: number = 45,
+  language: LanguageId = 'en'
+): string => {
+  if (language !== 'en') {
+    return buildPackText(getLanguagePack(language), focusKeys.map(k => k.toLowerCase()), difficulty, focusNgrams.map(n => n.toLowerCase()), random, targetWords);
+  }
+  const bank = resolveBank(topic);
+  const keys = focusKeys.map(k => k.toLowerCase());
+  const ngrams = focusNgrams.map(n => n.toLowerCase());
+
+  // Beginners get plain lowercase phrases with a sprinkling of pure drill words
+  if (difficulty === 'Beginner') {
+    const words: string[] = [];
+    while (words.length < targetWords) {
+      const phrase = fillTemplate(pick(TEMPLATES, random), bank, keys, random, ngrams);
+      words.push(...phrase.split(' '));
+      if (keys.length > 0) words.push(pickWord(COMMON_WORDS, keys, random));
+      words.push(...ngramDrill(ngrams, random, 2));
+    }
+    return words.slice(0, targetWords).join(' ');
+  }
+
+  const sentences: string[] = [];
+  while (countWords(sentences.join(' ')) < targetWords) {
+    let sentence = fillTemplate(pick(TEMPLATES, random), bank, keys, random, ngrams);
+    if (difficulty === 'Advanced' && random() < 0.6) {
+      sentence += fillTemplate(pick(ADVANCED_CLAUSES, random), bank, keys, random, ngrams);
+    }
+    const ending = difficulty === 'Advanced' ? pick(['.', '.', '!', '?'], random) : '.';
+    sentences.push(capitalize(sentence) + ending);
+
+    // Interleave short runs of words that are dense with the weak transitions
+    const drill = ngramDrill(ngrams, random, 3);
+    if (drill.length > 0) sentences.push(capitalize(drill.join(', ')) + '.');
+  }
+  return sentences.join(' ');
+};
+
+// How each punctuation key gets worked into a drill word
+const PUNCTUATION_DECORATORS: Record<string, (word: string) => string> = {
+  ',': w => `${w},`,
+  '.': w => `${w}.`,
+  ';': w => `${w};`,
+  ':': w => `${w}:`,
+  '!': w => `${w}!`,
+  '?': w => `${w}?`,
+  "'": w => `${w}'s`,
+  '"': w => `"${w}"`,
+  '-': w => `${w}-${w.slice(0, 2)}`,
+  '/': w => `${w}/${w.slice(-2)}`,
+  '(': w => `(${w})`,
+  ')': w => `(${w})`,
+};
+
+const makePseudoWord = (letters: string[], focus: string[], random: Random) => {
+  const length = 2 + Math.floor(random() * 4);
+  const chars = Array.from({ length }, () => pick(letters, random));
+  if (focus.length > 0) chars[Math.floor(random() * length)] = pick(focus, random);
+  return chars.join('');
+};
+
+// Drill text restricted to a set of keys, used by the curriculum. Real words are used once
+// enough of the keyboard is unlocked; before that the drill falls back to letter groups.
+export const buildDrillText = (
+  allowedKeys: string[],
+  focusKeys: string[],
+  random: Random = Math.random,
+  targetWords: number = 30
+): string => {
+  const allowed = new Set(allowedKeys);
+  const letters = allowedKeys.filter(k => /^\p{Ll}$/u.test(k));
+  const digits = allowedKeys.filter(k => /^[0-9]$/.test(k));
+  const punctuation = allowedKeys.filter(k => k in PUNCTUATION_DECORATORS);
+  const useCapitals = allowedKeys.some(k => /^\p{Lu}$/u.test(k));
+
+  const focusLetters = focusKeys.filter(k => letters.includes(k));
+  const focusDigits = focusKeys.filter(k => digits.includes(k));
+  const focusPunctuation = focusKeys.filter(k => punctuation.includes(k));
+
+  const fits = (word: string) => Array.from(word).every(ch => allowed.has(ch));
+  const english = WORD_POOL.filter(fits);
+  const candidates = english.length >= 8 ? english : PACK_WORDS.filter(fits);
+  const useRealWords = candidates.length >= 8;
+
+  const words: string[] = [];
+  while (words.length < targetWords) {
+    let word = useRealWords
+      ? pickWord(candidates, focusLetters, random)
+      : makePseudoWord(letters, focusLetters, random);
+
+    if (digits.length > 0 && random() < (focusDigits.length > 0 ? 0.5 : 0.15)) {
+      const pool = focusDigits.length > 0 ? focusDigits : digits;
+      word = Array.from({ length: 1 + Math.floor(random() * 3) }, () => pick(pool, random)).join('');
+    } else if (punctuation.length > 0 && random() < (focusPunctuation.length > 0 ? 0.5 : 0.2)) {
+      word = PUNCTUATION_DECORATORS[pick(focusPunctuation.length > 0 ? focusPunctuation : punctuation, random)](word);
+    }
+
+    if (useCapitals && random() < 0.4) word = capitalize(word);
+    words.push(word);
+  }
+  return words.join(' ');
+};
+
+// Lowercase common words with no punctuation, the usual benchmark format for timed tests
+export const buildWordStream = (count: number, random: Random = Math.random, language: LanguageId = 'en'): string[] => {
+  const pool = getLanguagePack(language).words;
+  const words: string[] = [];
+  while (words.length < count) {
+    const word = pick(pool, random);
+    if (word !== words[words.length - 1]) words.push(word);
+  }
+  return words;
+};
+
+// Neon Rain wants words worth a few keystrokes; packs without enough long words fall back to all of them
+export const buildGameWords = (count: number = 20, random: Random = Math.random, language: LanguageId = 'en'): string[] => {
+  const pack = getLanguagePack(language).words;
+  const long = pack.filter(word => Array.from(word).length >= 3);
+  const pool = language === 'en' ? GAME_WORDS : long.length >= 20 ? long : pack;
+  return Array.from({ length: count }, () => pick(pool, random));
+};
+
+export const localProvider: ContentProvider = {
+  id: 'local',
+  label: 'Offline',
+  generateLessonContent: async (focusKeys, difficulty, topic = 'general', focusNgrams = [], language = 'en') =>
+    buildLessonText(focusKeys, difficulty, topic, focusNgrams, Math.random, undefined, language),
+  generateGameWords: async (count = 20, language = 'en') => buildGameWords(count, Math.random, language),
+  generateCoachReport: async input => buildCoachReport(input),
+};
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { ErrorPolicy, KeystrokeEvent } from '../types';
+import { acceptsKey, applyEvent, isDeletion, WORD_BACKSPACE } from './inputPolicy';
+import { computeMetrics, consistencyOf, finalInputFrom, perSecondWpm } from './metrics';
+
+// Plays keys against a text the way the typing handler does, one every `stepMs`
+const play = (text: string, keys: string[], policy: ErrorPolicy = 'free', stepMs = 100): KeystrokeEvent[] => {
+  let input = '';
+  return keys.map((key, i) => {
+    const deletion = key === 'Backspace' || key === WORD_BACKSPACE;
+    const expected = deletion ? '' : text[input.length] || '';
+    const event: KeystrokeEvent = deletion
+      ? { t: i * stepMs, key, expected, correct: true }
+      : {
+          t: i * stepMs,
+          key,
+          expected,
+          correct: key === expected,
+          ...(acceptsKey(policy, input, text, key) ? {} : { rejected: true }),
+        };
+    input = applyEvent(input, event);
+    return event;
+  });
+};
+
+describe('computeMetrics', () => {
+  it('reports a clean run', () => {
+    const events = play('hello world', 'hello world'.split(''));
+    const metrics = computeMetrics(events, 'hello world', 1000);
+    expect(metrics.grossWpm).toBe(132);
+    expect(metrics.netWpm).toBe(132);
+    expect(metrics.rawCpm).toBe(660);
+    expect(metrics.accuracy).toBe(100);
+    expect(metrics.finalAccuracy).toBe(100);
+    expect(metrics.charsTyped).toBe(11);
+    expect(metrics.corrections).toBe(0);
+  });
+
+  it('keeps corrected mistakes in accuracy but not on screen', () => {
+    const events = play('cat', ['c', 'x', 'Backspace', 'a', 't']);
+    const metrics = computeMetrics(events, 'cat', 1000);
+    expect(finalInputFrom(events)).toBe('cat');
+    expect(metrics.keystrokeErrors).toBe(1);
+    expect(metrics.accuracy).toBe(75);
+    expect(metrics.uncorrectedErrors).toBe(0);
+    expect(metrics.finalAccuracy).toBe(100);
+    expect(metrics.corrections).toBe(1);
+    expect(metrics.charsTyped).toBe(3);
+    expect(metrics.grossWpm).toBe(48); // four characters reached the screen
+  });
+
+  it('counts uncorrected mistakes under the free policy', () => {
+    const events = play('ab', ['a', 'x'], 'free');
+    const metrics = computeMetrics(events, 'ab', 1000);
+    expect(events.some(e => e.rejected)).toBe(false);
+    expect(metrics.uncorrectedErrors).toBe(1);
+    expect(metrics.finalAccuracy).toBe(50);
+    expect(metrics.netWpm).toBe(12);
+    expect(metrics.grossWpm).toBe(24);
+  });
+
+  it('logs keys refused by stop-on-error as mistakes without typing them', () => {
+    const events = play('cat', ['c', 'x', 'a', 't'], 'stop-on-error');
+    const metrics = computeMetrics(events, 'cat', 1000);
+    expect(events.filter(e => e.rejected)).toHaveLength(1);
+    expect(finalInputFrom(events)).toBe('cat');
+    expect(metrics.keystrokeErrors).toBe(1);
+    expect(metrics.accuracy).toBe(75);
+    expect(metrics.charsTyped).toBe(3);
+    expect(metrics.grossWpm).toBe(36);
+    expect(metrics.uncorrectedErrors).toBe(0);
+  });
+
+  it('holds the caret at a word break under stop-on-word until the word is fixed', () => {
+    const events = play('ab cd', ['a', 'x', ' ', 'Backspace', 'b', ' ', 'c', 'd'], 'stop-on-word');
+    const metrics = computeMetrics(events, 'ab cd', 1000);
+    expect(events.filter(e => e.rejected).map(e => e.key)).toEqual([' ']);
+    expect(finalInputFrom(events)).toBe('ab cd');
+    expect(metrics.keystrokeErrors).toBe(1); // the refused space was the right key, at the wrong time
+    expect(metrics.corrections).toBe(1);
+    expect(metrics.uncorrectedErrors).toBe(0);
+  });
+
+  it('replays word deletions', () => {
+    const events = play('ab cd', ['a', 'b', ' ', 'c', 'x', WORD_BACKSPACE, 'c', 'd']);
+    const metrics = computeMetrics(events, 'ab cd', 1000);
+    expect(isDeletion(events[5])).toBe(true);
+    expect(finalInputFrom(events)).toBe('ab cd');
+    expect(metrics.corrections).toBe(1);
+    expect(metrics.keystrokeErrors).toBe(1);
+    expect(metrics.finalAccuracy).toBe(100);
+  });
+
+  it('ignores keys after a time limit', () => {
+    const events = play('abcdef', 'abcdef'.split(''), 'free', 400);
+    const metrics = computeMetrics(events, 'abcdef', 1000);
+    expect(metrics.charsTyped).toBe(3); // keys at 0, 400 and 800ms
+    expect(metrics.durationMs).toBe(1000);
+    expect(metrics.grossWpm).toBe(36);
+  });
+
+  it('handles an empty log', () => {
+    const metrics = computeMetrics([], 'abc', 0);
+    expect(metrics).toMatchObject({
+      grossWpm: 0,
+      netWpm: 0,
+      rawCpm: 0,
+      accuracy: 100,
+      finalAccuracy: 100,
+      consistency: 100,
+      series: [0],
+      charsTyped: 0,
+      keystrokeErrors: 0,
+      uncorrectedErrors: 0,
+      corrections: 0,
+    });
+  });
+
+  it('reports no speed for a zero duration', () => {
+    const events = play('ab', ['a', 'b'], 'free', 0);
+    const metrics = computeMetrics(events, 'ab', 0);
+    expect(metrics.grossWpm).toBe(0);
+    expect(metrics.netWpm).toBe(0);
+    expect(metrics.rawCpm).toBe(0);
+    expect(metrics.accuracy).toBe(100);
+    expect(metrics.charsTyped).toBe(2);
+    expect(metrics.series).toEqual([0]);
+  });
+});
+
+describe('perSecondWpm', () => {
+  it('buckets characters by second', () => {
+    const events = play('abcdefgh', 'abcdefgh'.split(''), 'free', 250);
+    expect(perSecondWpm(events, 2000)).toEqual([48, 48]);
+  });
+
+  it('folds a short trailing second into the one before it', () => {
+    const events = play('abc', ['a', 'b', 'c'], 'free', 1100);
+    // Keys at 0, 1100 and 2200ms; the last 200ms are not a bucket of their own
+    expect(perSecondWpm(events, 2200)).toEqual([12, 20]);
+  });
+
+  it('skips deletions and rejected keys', () => {
+    expect(perSecondWpm(play('ab', ['a', 'x', 'b'], 'stop-on-error'), 1000)).toEqual([24]);
+    expect(perSecondWpm(play('ab', ['a', 'x', 'Backspace', 'b']), 1000)).toEqual([36]);
+  });
+
+  it('returns a single empty bucket for an empty log or zero duration', () => {
+    expect(perSecondWpm([], 0)).toEqual([0]);
+    expect(perSecondWpm(play('a', ['a']), 0)).toEqual([0]);
+  });
+});
+
+describe('consistencyOf', () => {
+  it('is 100 for an even pace or too few seconds to judge', () => {
+    expect(consistencyOf([50, 50, 50])).toBe(100);
+    expect(consistencyOf([70])).toBe(100);
+    expect(consistencyOf([])).toBe(100);
+  });
+
+  it('falls with the spread of the series', () => {
+    expect(consistencyOf([40, 60])).toBe(80);
+    expect(consistencyOf([0, 100])).toBe(0);
+  });
+
+  it('is 0 when nothing was typed', () => {
+    expect(consistencyOf([0, 0])).toBe(0);
+  });
+});
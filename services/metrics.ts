@@ -0,0 +1,83 @@
+import { KeystrokeEvent, SessionMetrics } from '../types';
+import { applyEvent, isDeletion } from './inputPolicy';
+import { graphemeCount, splitGraphemes } from './graphemes';
+
+// Standard typing convention: one "word" is five characters including spaces
+const CHARS_PER_WORD = 5;
+
+// A trailing partial second shorter than this is folded into the one before it,
+// otherwise a single late keystroke reads as a huge spike
+const MIN_BUCKET_MS = 500;
+
+export const wpmFromChars = (chars: number, ms: number): number =>
+  ms > 0 ? Math.round((chars / CHARS_PER_WORD) / (ms / 60000)) : 0;
+
+// Every character keystroke, including ones the error policy kept off the screen
+const struckEvents = (events: KeystrokeEvent[]) => events.filter(e => !isDeletion(e));
+
+// Characters (graphemes) that reached the screen; auto-filled indentation rides on its keystroke
+const charsOf = (events: KeystrokeEvent[]) =>
+  events.reduce((sum, e) => (e.rejected ? sum : sum + graphemeCount(e.key)), 0);
+
+// What was left on screen once the log finished playing
+export const finalInputFrom = (events: KeystrokeEvent[]): string => events.reduce(applyEvent, '');
+
+// Session length as seen by the log: from the first keystroke to the last
+export const logDuration = (events: KeystrokeEvent[]): number =>
+  events.length > 0 ? events[events.length - 1].t : 0;
+
+// WPM for each second of the session
+export const perSecondWpm = (events: KeystrokeEvent[], durationMs: number): number[] => {
+  const tail = durationMs % 1000;
+  const seconds = Math.max(1, Math.floor(durationMs / 1000) + (tail >= MIN_BUCKET_MS ? 1 : 0));
+  const buckets = new Array(seconds).fill(0);
+  struckEvents(events).forEach(e => {
+    if (e.rejected) return;
+    const second = Math.min(seconds - 1, Math.floor(e.t / 1000));
+    buckets[second] += graphemeCount(e.key);
+  });
+  return buckets.map((chars, i) => {
+    const span = i === seconds - 1 ? durationMs - i * 1000 : 1000;
+    return wpmFromChars(chars, span);
+  });
+};
+
+// 100 for a perfectly even pace, falling with the spread of the per-second series
+export const consistencyOf = (series: number[]): number => {
+  if (series.length < 2) return 100;
+  const mean = series.reduce((sum, v) => sum + v, 0) / series.length;
+  if (mean === 0) return 0;
+  const variance = series.reduce((sum, v) => sum + (v - mean) ** 2, 0) / series.length;
+  return Math.round(Math.max(0, 1 - Math.sqrt(variance) / mean) * 100);
+};
+
+// Every number the app reports about a session comes from here, given the keystroke
+// log, the target text and how long the session has run
+export const computeMetrics = (log: KeystrokeEvent[], text: string, durationMs: number): SessionMetrics => {
+  // Keys that land after a time limit expired do not count
+  const events = log.filter(e => e.t <= durationMs);
+  const typed = struckEvents(events);
+  const typedChars = charsOf(typed);
+  const input = finalInputFrom(events);
+  const typedGraphemes = splitGraphemes(input);
+  const textGraphemes = splitGraphemes(text);
+  const uncorrectedErrors = typedGraphemes.filter((char, i) => char !== textGraphemes[i]).length;
+  const correctChars = typedGraphemes.length - uncorrectedErrors;
+  const keystrokeErrors = typed.filter(e => !e.correct).length;
+  const series = perSecondWpm(events, durationMs);
+
+  return {
+    grossWpm: wpmFromChars(typedChars, durationMs),
+    netWpm: wpmFromChars(correctChars, durationMs),
+    rawCpm: durationMs > 0 ? Math.round(typedChars / (durationMs / 60000)) : 0,
+    accuracy: typed.length > 0 ? Math.round(((typed.length - keystrokeErrors) / typed.length) * 100) : 100,
+    finalAccuracy: typedGraphemes.length > 0 ? Math.round((correctChars / typedGraphemes.length) * 100) : 100,
+    consistency: consistencyOf(series),
+    series,
+    durationMs,
+    charsTyped: typedGraphemes.length,
+    keystrokeErrors,
+    uncorrectedErrors,
+    corrections: events.length - typed.length,
+  };
+};
@@ -0,0 +1,51 @@
+import { AiClient, GenerateRequest } from './aiRequestLayer';
+import { buildGameWords, buildLessonText, buildWordStream } from './localContentService';
+
+// Stand-in for the Gemini client: answers from the offline generator after a delay and can
+// be told to fail, so timeouts, retries and error states can be exercised without a key.
+export interface MockAiOptions {
+  latencyMs?: number;
+  failures?: number; // the first N calls fail
+  failStatus?: number; // HTTP status of those failures; 503 is retried, 400 is not
+  respond?: (request: GenerateRequest) => string;
+}
+
+const mockCoachReply = () => JSON.stringify({
+  diagnosis: 'Mock coach: no real analysis happened.',
+  weaknesses: [{ kind: 'rhythm', target: 'rhythm', reason: 'Reported by the mock client' }],
+  drills: [1, 2].map(n => ({
+    title: `Mock Drill ${n}`,
+    goal: 'Placeholder drill from the mock client.',
+    focusKeys: [],
+    focusNgrams: [],
+    text: buildWordStream(30).join(' '),
+  })),
+});
+
+const defaultReply = (request: GenerateRequest) => {
+  if (request.config?.responseMimeType === 'application/json') return mockCoachReply();
+  const wordCount = request.contents.match(/list of (\d+) random words/);
+  if (wordCount) return buildGameWords(Number(wordCount[1])).join(' ');
+  return buildLessonText([], 'Intermediate');
+};
+
+export const createMockAiClient = ({ latencyMs = 300, failures = 0, failStatus = 503, respond = defaultReply }: MockAiOptions = {}) => {
+  const calls: GenerateRequest[] = [];
+  const client: AiClient = {
+    generateContent: (request, signal) => {
+      calls.push(request);
+      const failing = calls.length <= failures;
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          if (failing) reject(Object.assign(new Error(`Mock failure ${calls.length}`), { status: failStatus }));
+          else resolve({ text: respond(request) });
+        }, latencyMs);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('Aborted'));
+        });
+      });
+    },
+  };
+  return { client, calls };
+};
@@ -0,0 +1,63 @@
+import { ServerMessage } from '../types';
+
+export const RACE_SERVER_PORT = 8787;
+
+// The race server usually runs on the machine serving the app, so that is the default
+export const defaultServerUrl = () => `ws://${window.location.hostname || 'localhost'}:${RACE_SERVER_PORT}`;
+
+export interface RaceConnection {
+  create: (name: string) => void;
+  join: (code: string, name: string) => void;
+  start: () => void;
+  progress: (position: number) => void;
+  finish: (input: string) => void;
+  close: () => void;
+}
+
+// Resolves once the socket is open; rejects if the server cannot be reached
+export const connectToRaceServer = (
+  url: string,
+  onMessage: (message: ServerMessage) => void,
+  onClose: () => void
+): Promise<RaceConnection> =>
+  new Promise((resolve, reject) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (error) {
+      reject(error);
+      return;
+    }
+    let opened = false;
+    const send = (message: object) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    socket.onopen = () => {
+      opened = true;
+      resolve({
+        create: (name) => send({ type: 'create', name }),
+        join: (code, name) => send({ type: 'join', code, name }),
+        start: () => send({ type: 'start' }),
+        progress: (position) => send({ type: 'progress', position }),
+        finish: (input) => send({ type: 'finish', input }),
+        close: () => {
+          socket.onclose = null;
+          socket.close();
+        },
+      });
+    };
+    socket.onmessage = (event) => {
+      try {
+        onMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error("Failed to read race server message:", error);
+      }
+    };
+    socket.onerror = () => {
+      if (!opened) reject(new Error(`No race server answered at ${url}`));
+    };
+    socket.onclose = () => {
+      if (opened) onClose();
+    };
+  });
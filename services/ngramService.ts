@@ -0,0 +1,80 @@
+import { NgramStats } from '../types';
+
+// A keystroke that landed on the expected caret position, used to detect fluent runs
+export interface FlowStroke {
+  index: number;
+  t: number;
+}
+
+const MIN_SAMPLES = 3;
+
+const addSample = (
+  stats: Record<string, NgramStats>,
+  ngram: string,
+  correct: boolean,
+  latency: number
+): Record<string, NgramStats> => {
+  const current = stats[ngram] || { ngram, total: 0, errors: 0, latencyTotal: 0 };
+  return {
+    ...stats,
+    [ngram]: {
+      ...current,
+      total: current.total + 1,
+      errors: correct ? current.errors : current.errors + 1,
+      latencyTotal: current.latencyTotal + latency,
+    },
+  };
+};
+
+// Record the bigram and trigram that end at `index`, but only when the preceding keys
+// were typed in one uninterrupted run; a Backspace in between would skew the timing.
+export const recordNgrams = (
+  stats: Record<string, NgramStats>,
+  text: string,
+  index: number,
+  t: number,
+  flow: FlowStroke[],
+  correct: boolean
+): Record<string, NgramStats> => {
+  let next = stats;
+  for (const n of [2, 3]) {
+    const start = flow[flow.length - (n - 1)];
+    if (!start || start.index !== index - (n - 1)) continue;
+    const ngram = text.slice(index - n + 1, index + 1).toLowerCase();
+    if (ngram.length === n) next = addSample(next, ngram, correct, t - start.t);
+  }
+  return next;
+};
+
+export interface RankedNgram {
+  ngram: string;
+  samples: number;
+  errorRate: number; // 0-100
+  msPerKey: number; // average latency per transition inside the n-gram
+}
+
+export const rankNgrams = (
+  stats: Record<string, NgramStats>,
+  by: 'latency' | 'errors',
+  limit: number = 10
+): RankedNgram[] =>
+  Object.values(stats)
+    .filter(s => s.total >= MIN_SAMPLES)
+    .map(s => ({
+      ngram: s.ngram,
+      samples: s.total,
+      errorRate: Math.round((s.errors / s.total) * 100),
+      msPerKey: Math.round(s.latencyTotal / s.total / (s.ngram.length - 1)),
+    }))
+    .filter(r => by === 'latency' || r.errorRate > 0)
+    .sort((a, b) => by === 'latency' ? b.msPerKey - a.msPerKey : b.errorRate - a.errorRate)
+    .slice(0, limit);
+
+// Sequences to feed into lesson generation: the worst few by errors, then by speed
+export const weakNgrams = (stats: Record<string, NgramStats>, limit: number = 6): string[] => {
+  const picks = [
+    ...rankNgrams(stats, 'errors', limit),
+    ...rankNgrams(stats, 'latency', limit),
+  ].map(r => r.ngram);
+  return Array.from(new Set(picks)).slice(0, limit);
+};
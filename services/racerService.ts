@@ -0,0 +1,53 @@
+import { RacerProfile } from '../types';
+import { Random } from './random';
+
+export const RACER_PROFILES: RacerProfile[] = [
+  { id: 'rookie', name: 'Rookie', wpm: 30, variance: 0.3, color: '#0aff00' },
+  { id: 'cruiser', name: 'Cruiser', wpm: 50, variance: 0.22, color: '#00f3ff' },
+  { id: 'pro', name: 'Pro', wpm: 75, variance: 0.15, color: '#bc13fe' },
+  { id: 'legend', name: 'Legend', wpm: 105, variance: 0.1, color: '#ff00ff' },
+];
+
+export const COUNTDOWN_SECONDS = 3;
+
+// Occasional stalls, like a human rereading a word
+const HESITATION_CHANCE = 0.05;
+const HESITATION_MS = [300, 1000];
+
+export const getRacerProfile = (id: string): RacerProfile =>
+  RACER_PROFILES.find(p => p.id === id) || RACER_PROFILES[0];
+
+// Standard normal sample (Box-Muller)
+const gaussian = (random: Random) => {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+const wordsOf = (text: string) => Array.from(text.matchAll(/\S+/g));
+
+// Time in ms at which an opponent finishes each word of the passage, including the
+// space after it. Per-word pace wobbles around the profile's WPM.
+export const planRace = (profile: RacerProfile, text: string, random: Random): number[] => {
+  const words = wordsOf(text);
+  let t = 0;
+  return words.map((word, i) => {
+    const chars = word[0].length + (i < words.length - 1 ? 1 : 0);
+    const pace = Math.min(2, Math.max(0.5, 1 + gaussian(random) * profile.variance));
+    const stall = random() < HESITATION_CHANCE
+      ? HESITATION_MS[0] + random() * (HESITATION_MS[1] - HESITATION_MS[0])
+      : 0;
+    t += ((chars / 5) / profile.wpm) * 60000 * pace + stall;
+    return Math.round(t);
+  });
+};
+
+export const wordsDoneAt = (splits: number[], elapsedMs: number) => splits.filter(t => t <= elapsedMs).length;
+
+// The player's car moves only for words typed exactly right
+export const completedWords = (text: string, input: string) =>
+  wordsOf(text).filter(word => {
+    const end = word.index! + word[0].length;
+    return input.length >= end && input.slice(word.index!, end) === word[0];
+  }).length;
+
+export const countWords = (text: string) => wordsOf(text).length;
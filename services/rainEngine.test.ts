@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { PowerUp } from '../types';
+import { RAIN_STEP_MS, RainEngine } from './rainEngine';
+
+const POOL = ['neon', 'rain', 'night', 'glow', 'pulse', 'grid'];
+
+// Advances in frames of the given rate until `ms` of game time has been fed in
+const run = (engine: RainEngine, ms: number, fps: number) => {
+  const frame = 1000 / fps;
+  for (let fed = 0; fed + frame <= ms + 1e-6; fed += frame) engine.advance(frame);
+};
+
+const started = (pool: string[] = POOL, seed = 7, lives?: number) => {
+  const engine = new RainEngine(pool, { seed, lives });
+  engine.start();
+  return engine;
+};
+
+// Types the rest of the locked word, or the lowest word when nothing is locked
+const typeLowest = (engine: RainEngine) => {
+  const { words } = engine.snapshot();
+  const lowest = [...words].sort((a, b) => b.y - a.y)[0];
+  Array.from(lowest.text).forEach(char => engine.type(char));
+  return lowest;
+};
+
+// The first seed whose first word carries the power-up
+const engineWithPowerUp = (powerUp: PowerUp, lives = 3) => {
+  for (let seed = 1; seed < 5000; seed++) {
+    const engine = started(['ab'], seed, lives);
+    engine.advance(RAIN_STEP_MS);
+    if (engine.snapshot().words[0]?.powerUp === powerUp) return engine;
+  }
+  throw new Error(`no seed spawns ${powerUp}`);
+};
+
+describe('RainEngine', () => {
+  it('plays the same game for the same seed and script', () => {
+    const script = (engine: RainEngine) => {
+      run(engine, 5000, 60);
+      typeLowest(engine);
+      engine.type('x');
+      run(engine, 3000, 60);
+      return engine.snapshot();
+    };
+    const a = script(started(POOL, 42));
+    const b = script(started(POOL, 42));
+    expect(a).toEqual(b);
+    expect(script(started(POOL, 43)).words).not.toEqual(a.words);
+  });
+
+  it('reaches the same state at 30, 60 and 144 fps', () => {
+    const at = (fps: number) => {
+      const engine = started(POOL, 3);
+      run(engine, 4000, fps);
+      return engine.snapshot();
+    };
+    const reference = at(60);
+    expect(reference.words.length).toBeGreaterThan(0);
+    expect(at(30)).toEqual(reference);
+    expect(at(144)).toEqual(reference);
+  });
+
+  it('does nothing before start, while paused and after game over', () => {
+    const engine = new RainEngine(POOL, { seed: 1 });
+    engine.advance(1000);
+    expect(engine.snapshot()).toMatchObject({ status: 'ready', elapsedMs: 0 });
+
+    engine.start();
+    run(engine, 1000, 60);
+    engine.pause();
+    const paused = engine.snapshot();
+    expect(paused.status).toBe('paused');
+    engine.advance(5000);
+    engine.type('n');
+    expect(engine.snapshot()).toEqual(paused);
+
+    engine.togglePause();
+    expect(engine.snapshot().status).toBe('running');
+    run(engine, 1000, 60);
+    expect(engine.snapshot().elapsedMs).toBeCloseTo(2000, 5);
+  });
+
+  it('ends the game when the last life falls off the bottom', () => {
+    const engine = started(POOL, 5, 1);
+    for (let i = 0; i < 20 && engine.snapshot().status === 'running'; i++) run(engine, 1000, 60);
+    const over = engine.snapshot();
+    expect(over.status).toBe('over');
+    expect(over.lives).toBe(0);
+    engine.advance(1000);
+    engine.togglePause();
+    expect(engine.snapshot()).toEqual(over);
+  });
+
+  it('locks onto the lowest word starting with the first key', () => {
+    const engine = started(['ab', 'ac'], 11, 9);
+    run(engine, 5000, 60);
+    const { words } = engine.snapshot();
+    expect(words.length).toBeGreaterThan(2);
+    const lowest = [...words].sort((a, b) => b.y - a.y)[0];
+
+    engine.type('a');
+    expect(engine.snapshot()).toMatchObject({ targetId: lowest.id, input: 'a' });
+
+    // The other word's letter does not steal the lock
+    engine.type(lowest.text === 'ab' ? 'c' : 'b');
+    expect(engine.snapshot()).toMatchObject({ targetId: lowest.id, input: 'a' });
+    expect(engine.snapshot().summary.mistakes).toBe(1);
+
+    engine.backspace();
+    expect(engine.snapshot()).toMatchObject({ targetId: null, input: '' });
+
+    engine.type('a');
+    engine.type(lowest.text[1]);
+    const cleared = engine.snapshot();
+    expect(cleared.words.find(w => w.id === lowest.id)).toBeUndefined();
+    expect(cleared).toMatchObject({ targetId: null, input: '' });
+  });
+
+  it('builds a combo multiplier that a mistake resets', () => {
+    const engine = started(['go'], 2, 9);
+    run(engine, 6500, 60); // words spawn at 0, 2, 4 and 6 seconds
+    expect(engine.snapshot().words).toHaveLength(4);
+    expect(engine.snapshot().words.some(w => w.powerUp)).toBe(false);
+
+    [1, 2, 3].forEach(() => typeLowest(engine));
+    expect(engine.snapshot()).toMatchObject({ combo: 3, multiplier: 2, score: 60 });
+    typeLowest(engine);
+    expect(engine.snapshot().score).toBe(100); // the fourth word scores double
+
+    engine.type('z');
+    expect(engine.snapshot()).toMatchObject({ combo: 0, multiplier: 1 });
+    expect(engine.snapshot().summary).toMatchObject({ maxCombo: 4, mistakes: 1, wordsCleared: 4 });
+  });
+
+  it('slows falling words for a while after a slow power-up', () => {
+    const engine = engineWithPowerUp('slow');
+    run(engine, 2100, 60); // a second word spawns
+    typeLowest(engine);
+    const before = engine.snapshot();
+    expect(before.slowMsLeft).toBeGreaterThan(0);
+    const word = before.words[0];
+    engine.advance(RAIN_STEP_MS);
+    const moved = engine.snapshot().words.find(w => w.id === word.id)!.y - word.y;
+    expect(moved).toBeCloseTo(word.speed * 0.4 * (RAIN_STEP_MS / 1000), 5);
+  });
+
+  it('sweeps the screen with a clear power-up', () => {
+    const engine = engineWithPowerUp('clear');
+    run(engine, 4100, 60);
+    const lowest = [...engine.snapshot().words].sort((a, b) => b.y - a.y)[0];
+    expect(lowest.powerUp).toBe('clear');
+    typeLowest(engine);
+    expect(engine.snapshot().words).toEqual([]);
+    expect(engine.snapshot().summary).toMatchObject({ wordsCleared: 3, powerUps: 1 });
+    expect(engine.snapshot().score).toBe(20); // swept words score nothing
+  });
+
+  it('adds a life, up to the cap, with a life power-up', () => {
+    const engine = engineWithPowerUp('life');
+    typeLowest(engine);
+    expect(engine.snapshot().lives).toBe(4);
+
+    const capped = engineWithPowerUp('life', 5);
+    typeLowest(capped);
+    expect(capped.snapshot().lives).toBe(5);
+  });
+});
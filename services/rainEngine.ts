@@ -0,0 +1,272 @@
+import { PowerUp, WordEntity } from '../types';
+import { createRng, Random } from './random';
+import { dropLastGrapheme } from './graphemes';
+
+export type RainStatus = 'ready' | 'running' | 'paused' | 'over';
+
+export interface RainSummary {
+  score: number;
+  level: number;
+  elapsedMs: number;
+  wordsCleared: number;
+  keystrokes: number;
+  mistakes: number;
+  accuracy: number;
+  maxCombo: number;
+  powerUps: number;
+}
+
+export interface RainSnapshot {
+  status: RainStatus;
+  words: WordEntity[];
+  input: string;
+  targetId: number | null;
+  score: number;
+  lives: number;
+  level: number;
+  combo: number;
+  multiplier: number;
+  slowMsLeft: number;
+  lastMistakeMs: number | null; // elapsedMs of the latest mistake, for feedback
+  elapsedMs: number;
+  summary: RainSummary;
+}
+
+export interface RainOptions {
+  seed?: number;
+  lives?: number;
+}
+
+// The simulation always moves in fixed 60Hz steps, however often the host calls advance()
+export const RAIN_STEP_MS = 1000 / 60;
+// A tab that was in the background resumes where it was instead of fast-forwarding
+const MAX_CATCH_UP_STEPS = 30;
+
+const START_LIVES = 3;
+const MAX_LIVES = 5;
+const LEVEL_MS = 30000;
+const START_SPAWN_MS = 2000;
+const MIN_SPAWN_MS = 700;
+const SPAWN_MS_PER_LEVEL = 150;
+const BASE_SPEED = 12;
+const SPEED_PER_LEVEL = 3;
+const FIELD_BOTTOM = 100;
+const SPAWN_Y = -10;
+
+// Every COMBO_STEP clean words add one to the multiplier, up to MAX_MULTIPLIER
+const COMBO_STEP = 3;
+const MAX_MULTIPLIER = 4;
+
+const POWER_UP_CHANCE = 0.08;
+const POWER_UPS: PowerUp[] = ['slow', 'clear', 'life'];
+const SLOW_MS = 5000;
+const SLOW_FACTOR = 0.4;
+
+export const POWER_UP_LABELS: Record<PowerUp, string> = {
+  slow: 'Slow time',
+  clear: 'Clear screen',
+  life: 'Extra life',
+};
+
+// Neon Rain rules with no React, timers or network: feed it time and keys, read snapshots
+export class RainEngine {
+  private status: RainStatus = 'ready';
+  private words: WordEntity[] = [];
+  private input = '';
+  private targetId: number | null = null;
+  private score = 0;
+  private lives: number;
+  private combo = 0;
+  private maxCombo = 0;
+  private wordsCleared = 0;
+  private keystrokes = 0;
+  private mistakes = 0;
+  private powerUps = 0;
+  private slowMsLeft = 0;
+  private lastMistakeMs: number | null = null;
+  private elapsedMs = 0;
+  private accumulator = 0;
+  private sinceSpawn = START_SPAWN_MS;
+  private nextId = 1;
+  private readonly random: Random;
+  private readonly pool: string[];
+
+  constructor(pool: string[], options: RainOptions = {}) {
+    if (pool.length === 0) throw new Error("Neon Rain needs at least one word");
+    this.pool = [...pool];
+    this.random = createRng(options.seed ?? Date.now());
+    this.lives = options.lives ?? START_LIVES;
+  }
+
+  start() {
+    if (this.status === 'ready') this.status = 'running';
+  }
+
+  pause() {
+    if (this.status === 'running') this.status = 'paused';
+  }
+
+  resume() {
+    if (this.status === 'paused') {
+      this.status = 'running';
+      this.accumulator = 0;
+    }
+  }
+
+  togglePause() {
+    if (this.status === 'paused') this.resume();
+    else this.pause();
+  }
+
+  advance(ms: number) {
+    if (this.status !== 'running') return;
+    this.accumulator = Math.min(this.accumulator + ms, RAIN_STEP_MS * MAX_CATCH_UP_STEPS);
+    // The epsilon keeps float drift from dropping a step at frame rates that do not divide 60Hz evenly
+    while (this.accumulator >= RAIN_STEP_MS - 1e-6 && this.status === 'running') {
+      this.step();
+      this.accumulator -= RAIN_STEP_MS;
+    }
+  }
+
+  // The first key locks onto the lowest word starting with it; after that only the
+  // locked word's next letter counts, so shared prefixes never steal the target
+  type(char: string) {
+    if (this.status !== 'running') return;
+    this.keystrokes++;
+
+    const target = this.targetId === null
+      ? this.words.filter(w => w.text.startsWith(char)).sort((a, b) => b.y - a.y)[0]
+      : this.words.find(w => w.id === this.targetId);
+
+    if (!target || !target.text.startsWith(this.input + char)) {
+      this.mistake();
+      return;
+    }
+
+    this.targetId = target.id;
+    this.input += char;
+    if (this.input === target.text) this.clear(target);
+  }
+
+  // Backspace to nothing releases the lock
+  backspace() {
+    if (this.status !== 'running') return;
+    this.input = dropLastGrapheme(this.input);
+    if (!this.input) this.targetId = null;
+  }
+
+  // Words are replaced rather than mutated each step, so snapshots can share them
+  snapshot(): RainSnapshot {
+    return {
+      status: this.status,
+      words: this.words,
+      input: this.input,
+      targetId: this.targetId,
+      score: this.score,
+      lives: this.lives,
+      level: this.level(),
+      combo: this.combo,
+      multiplier: this.multiplier(),
+      slowMsLeft: this.slowMsLeft,
+      lastMistakeMs: this.lastMistakeMs,
+      elapsedMs: this.elapsedMs,
+      summary: {
+        score: this.score,
+        level: this.level(),
+        elapsedMs: this.elapsedMs,
+        wordsCleared: this.wordsCleared,
+        keystrokes: this.keystrokes,
+        mistakes: this.mistakes,
+        accuracy: this.keystrokes > 0 ? Math.round(((this.keystrokes - this.mistakes) / this.keystrokes) * 100) : 100,
+        maxCombo: this.maxCombo,
+        powerUps: this.powerUps,
+      },
+    };
+  }
+
+  private level() {
+    return 1 + Math.floor(this.elapsedMs / LEVEL_MS);
+  }
+
+  private multiplier() {
+    return Math.min(MAX_MULTIPLIER, 1 + Math.floor(this.combo / COMBO_STEP));
+  }
+
+  private mistake() {
+    this.mistakes++;
+    this.combo = 0;
+    this.lastMistakeMs = this.elapsedMs;
+  }
+
+  private release() {
+    this.targetId = null;
+    this.input = '';
+  }
+
+  private clear(word: WordEntity) {
+    this.score += word.text.length * 10 * this.multiplier();
+    this.combo++;
+    this.maxCombo = Math.max(this.maxCombo, this.combo);
+    this.wordsCleared++;
+    this.words = this.words.filter(w => w !== word);
+    this.release();
+    if (word.powerUp) this.activate(word.powerUp);
+  }
+
+  private activate(powerUp: PowerUp) {
+    this.powerUps++;
+    if (powerUp === 'slow') this.slowMsLeft = SLOW_MS;
+    if (powerUp === 'life') this.lives = Math.min(MAX_LIVES, this.lives + 1);
+    // Swept words count as cleared but score no points
+    if (powerUp === 'clear') {
+      this.wordsCleared += this.words.length;
+      this.words = [];
+    }
+  }
+
+  private step() {
+    this.elapsedMs += RAIN_STEP_MS;
+    this.sinceSpawn += RAIN_STEP_MS;
+    const spawnInterval = Math.max(MIN_SPAWN_MS, START_SPAWN_MS - (this.level() - 1) * SPAWN_MS_PER_LEVEL);
+    if (this.sinceSpawn >= spawnInterval) {
+      this.spawn();
+      this.sinceSpawn = 0;
+    }
+
+    const dt = (RAIN_STEP_MS / 1000) * (this.slowMsLeft > 0 ? SLOW_FACTOR : 1);
+    this.slowMsLeft = Math.max(0, this.slowMsLeft - RAIN_STEP_MS);
+
+    const falling: WordEntity[] = [];
+    this.words.forEach(word => {
+      const y = word.y + word.speed * dt;
+      if (y <= FIELD_BOTTOM) {
+        falling.push({ ...word, y });
+        return;
+      }
+      this.lives--;
+      this.combo = 0;
+      if (word.id === this.targetId) this.release();
+    });
+    this.words = falling;
+
+    if (this.lives <= 0) {
+      this.lives = 0;
+      this.status = 'over';
+    }
+  }
+
+  private spawn() {
+    const powerUp = this.random() < POWER_UP_CHANCE
+      ? POWER_UPS[Math.floor(this.random() * POWER_UPS.length)]
+      : undefined;
+    this.words = [...this.words, {
+      id: this.nextId++,
+      text: this.pool[Math.floor(this.random() * this.pool.length)],
+      x: this.random() * 80 + 5,
+      y: SPAWN_Y,
+      speed: BASE_SPEED + this.level() * SPEED_PER_LEVEL,
+      typed: '',
+      ...(powerUp ? { powerUp } : {}),
+    }];
+  }
+}
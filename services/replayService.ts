@@ -0,0 +1,137 @@
+import { GameMode, KeystrokeEvent, SessionRecord, SessionReplay } from '../types';
+import { applyEvent } from './inputPolicy';
+
+const STORAGE_KEY = 'typeneon:replays';
+const REPLAY_FORMAT = 1;
+const MAX_STORED_REPLAYS = 50;
+
+// Compact on-disk form: events become [t, key, expected, correct] tuples, with a fifth
+// flag only on keys the error policy rejected
+interface EncodedReplay {
+  format: number;
+  sessionId?: string;
+  mode: GameMode;
+  text: string;
+  startedAt: number;
+  events: ([number, string, string, 0 | 1] | [number, string, string, 0 | 1, 1])[];
+}
+
+export const encodeReplay = (replay: SessionReplay): EncodedReplay => ({
+  format: REPLAY_FORMAT,
+  sessionId: replay.sessionId,
+  mode: replay.mode,
+  text: replay.text,
+  startedAt: replay.startedAt,
+  events: replay.events.map(e =>
+    e.rejected ? [e.t, e.key, e.expected, e.correct ? 1 : 0, 1] : [e.t, e.key, e.expected, e.correct ? 1 : 0]
+  ),
+});
+
+export const decodeReplay = (raw: any): SessionReplay => {
+  if (!raw || typeof raw !== 'object' || raw.format !== REPLAY_FORMAT) {
+    throw new Error("Unsupported replay format");
+  }
+  if (typeof raw.text !== 'string' || !Array.isArray(raw.events)) {
+    throw new Error("Replay is missing its text or events");
+  }
+  const events: KeystrokeEvent[] = raw.events.map((e: any) => {
+    if (!Array.isArray(e) || typeof e[0] !== 'number' || typeof e[1] !== 'string') {
+      throw new Error("Replay contains a malformed keystroke");
+    }
+    return { t: e[0], key: e[1], expected: String(e[2] ?? ''), correct: e[3] === 1, ...(e[4] === 1 ? { rejected: true } : {}) };
+  });
+  return {
+    sessionId: typeof raw.sessionId === 'string' ? raw.sessionId : undefined,
+    mode: Object.values(GameMode).includes(raw.mode) ? raw.mode : GameMode.LESSON,
+    text: raw.text,
+    startedAt: typeof raw.startedAt === 'number' ? raw.startedAt : Date.now(),
+    events,
+  };
+};
+
+// Rebuild what the typist had on screen at a given moment of the session
+export const inputAt = (events: KeystrokeEvent[], time: number): string => {
+  let input = '';
+  for (const event of events) {
+    if (event.t > time) break;
+    input = applyEvent(input, event);
+  }
+  return input;
+};
+
+// When a recorded run first had `length` characters on screen; null if it never got that far
+export const timeToReach = (events: KeystrokeEvent[], length: number): number | null => {
+  if (length <= 0) return 0;
+  let input = '';
+  for (const event of events) {
+    input = applyEvent(input, event);
+    if (input.length >= length) return event.t;
+  }
+  return null;
+};
+
+export const replayDuration = (replay: SessionReplay) =>
+  replay.events.length > 0 ? replay.events[replay.events.length - 1].t : 0;
+
+const loadAll = (): Record<string, EncodedReplay> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Failed to load replays:", error);
+    return {};
+  }
+};
+
+export const saveReplay = (sessionId: string, replay: SessionReplay) => {
+  const all = loadAll();
+  all[sessionId] = encodeReplay({ ...replay, sessionId });
+
+  // Keep only the most recent replays; localStorage quotas are small
+  const ids = Object.keys(all).sort((a, b) => all[a].startedAt - all[b].startedAt);
+  ids.slice(0, Math.max(0, ids.length - MAX_STORED_REPLAYS)).forEach(id => delete all[id]);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error("Failed to save replay:", error);
+  }
+};
+
+export const loadReplay = (sessionId: string): SessionReplay | null => {
+  const encoded = loadAll()[sessionId];
+  if (!encoded) return null;
+  try {
+    return decodeReplay(encoded);
+  } catch {
+    return null;
+  }
+};
+
+export const listReplayIds = (): string[] => Object.keys(loadAll());
+
+// Fastest stored typing run, used as the default ghost opponent
+export const findPersonalBestReplay = (sessions: SessionRecord[]): SessionReplay | null => {
+  const stored = new Set(listReplayIds());
+  const best = sessions
+    .filter(s => s.mode !== GameMode.GAME_RAIN && stored.has(s.id))
+    .sort((a, b) => b.stats.wpm - a.stats.wpm)[0];
+  return best ? loadReplay(best.id) : null;
+};
+
+export const clearReplays = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const exportReplay = (replay: SessionReplay) => {
+  const blob = new Blob([JSON.stringify(encodeReplay(replay))], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `typeneon-replay-${new Date(replay.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const importReplay = async (file: File): Promise<SessionReplay> =>
+  decodeReplay(JSON.parse(await file.text()));
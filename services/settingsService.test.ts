@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, normalizeSettings } from './settingsService';
+
+describe('normalizeSettings', () => {
+  it('fills missing fields with defaults', () => {
+    expect(normalizeSettings(undefined)).toEqual(DEFAULT_SETTINGS);
+    expect(normalizeSettings({ blindMode: true })).toEqual({ ...DEFAULT_SETTINGS, blindMode: true });
+  });
+
+  it('keeps valid values', () => {
+    const custom = {
+      ...DEFAULT_SETTINGS,
+      errorPolicy: 'stop-on-word',
+      codeLanguage: 'rust',
+      timedTest: { kind: 'words', value: 50 },
+      tabWidth: 2,
+      racerOpponents: ['legend'],
+      playerName: 'Ada',
+    };
+    expect(normalizeSettings(custom)).toEqual(custom);
+  });
+
+  it('replaces values outside their allowed set', () => {
+    const settings = normalizeSettings({
+      layoutId: 'constructor',
+      errorPolicy: 'explode',
+      codeLanguage: 'cobol',
+      language: 42,
+    });
+    expect(settings.layoutId).toBe(DEFAULT_SETTINGS.layoutId);
+    expect(settings.errorPolicy).toBe(DEFAULT_SETTINGS.errorPolicy);
+    expect(settings.codeLanguage).toBe(DEFAULT_SETTINGS.codeLanguage);
+    expect(settings.language).toBe(DEFAULT_SETTINGS.language);
+  });
+
+  it('replaces a timed test that is not one of the offered options', () => {
+    expect(normalizeSettings({ timedTest: { kind: 'time', value: 7 } }).timedTest).toEqual(DEFAULT_SETTINGS.timedTest);
+    expect(normalizeSettings({ timedTest: { kind: 'laps', value: 30 } }).timedTest).toEqual(DEFAULT_SETTINGS.timedTest);
+    expect(normalizeSettings({ timedTest: 'long' }).timedTest).toEqual(DEFAULT_SETTINGS.timedTest);
+  });
+
+  it('replaces fields of the wrong type', () => {
+    const settings = normalizeSettings({
+      remapKeys: 'yes',
+      allowBackspace: null,
+      playerName: 7,
+      tabWidth: 0,
+      aiRequestsPerMinute: 2.5,
+      textRules: { quotes: false, dashes: 'no' },
+    });
+    expect(settings.remapKeys).toBe(DEFAULT_SETTINGS.remapKeys);
+    expect(settings.allowBackspace).toBe(DEFAULT_SETTINGS.allowBackspace);
+    expect(settings.playerName).toBe(DEFAULT_SETTINGS.playerName);
+    expect(settings.tabWidth).toBe(DEFAULT_SETTINGS.tabWidth);
+    expect(settings.aiRequestsPerMinute).toBe(DEFAULT_SETTINGS.aiRequestsPerMinute);
+    expect(settings.textRules).toEqual({ ...DEFAULT_SETTINGS.textRules, quotes: false });
+  });
+
+  it('keeps the AI request budget within the range the settings panel offers', () => {
+    expect(normalizeSettings({ aiRequestsPerMinute: 100000 }).aiRequestsPerMinute).toBe(60);
+    expect(normalizeSettings({ aiRequestsPerMinute: -3 }).aiRequestsPerMinute).toBe(1);
+    expect(normalizeSettings({ aiRequestsPerMinute: 45 }).aiRequestsPerMinute).toBe(45);
+  });
+
+  it('drops unknown racer opponents', () => {
+    expect(normalizeSettings({ racerOpponents: ['pro', 'ghost'] }).racerOpponents).toEqual(['pro']);
+    expect(normalizeSettings({ racerOpponents: ['ghost'] }).racerOpponents).toEqual(DEFAULT_SETTINGS.racerOpponents);
+    expect(normalizeSettings({ racerOpponents: 'pro' }).racerOpponents).toEqual(DEFAULT_SETTINGS.racerOpponents);
+  });
+});
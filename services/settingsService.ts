@@ -0,0 +1,98 @@
+import { AppSettings } from '../types';
+import { DEFAULT_LAYOUT_ID, LAYOUTS } from './keyboardLayouts';
+import { DEFAULT_TEXT_RULES } from './textPipeline';
+import { LANGUAGE_PACKS } from './languagePacks';
+import { ERROR_POLICIES } from './inputPolicy';
+import { LANGUAGE_LABELS } from './codeSnippets';
+import { TIME_OPTIONS, WORD_OPTIONS } from './timedTest';
+import { RACER_PROFILES } from './racerService';
+
+const STORAGE_KEY = 'typeneon:settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  layoutId: DEFAULT_LAYOUT_ID,
+  remapKeys: false,
+  showFingerGuide: true,
+  timedTest: { kind: 'time', value: 30 },
+  codeLanguage: 'typescript',
+  autoIndent: true,
+  tabWidth: 4,
+  errorPolicy: 'free',
+  blindMode: false,
+  allowBackspace: true,
+  racerOpponents: ['rookie', 'cruiser', 'pro'],
+  playerName: '',
+  raceServerUrl: '',
+  aiRequestsPerMinute: 10,
+  textRules: DEFAULT_TEXT_RULES,
+  language: 'en',
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// Own keys only, so a value like "constructor" is not mistaken for an option
+const isOption = (options: object, value: unknown) =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(options, value);
+
+const MAX_TAB_WIDTH = 8;
+
+// Range the settings panel offers for the Gemini request budget
+export const AI_REQUESTS_PER_MINUTE = { min: 1, max: 60 };
+
+// Missing or invalid fields take their defaults, so settings saved by older versions, or
+// edited by hand in an export file, keep working
+export const normalizeSettings = (raw: unknown): AppSettings => {
+  const parsed = isRecord(raw) ? raw : {};
+  const settings = { ...DEFAULT_SETTINGS, ...parsed } as AppSettings;
+  if (!isOption(LAYOUTS, settings.layoutId)) settings.layoutId = DEFAULT_LAYOUT_ID;
+  if (!isOption(LANGUAGE_PACKS, settings.language)) settings.language = DEFAULT_SETTINGS.language;
+  if (!isOption(LANGUAGE_LABELS, settings.codeLanguage)) settings.codeLanguage = DEFAULT_SETTINGS.codeLanguage;
+  if (!isOption(ERROR_POLICIES, settings.errorPolicy)) settings.errorPolicy = DEFAULT_SETTINGS.errorPolicy;
+
+  const test = settings.timedTest;
+  const testOptions = !isRecord(test) ? [] : test.kind === 'time' ? TIME_OPTIONS : test.kind === 'words' ? WORD_OPTIONS : [];
+  if (!testOptions.includes(test.value)) settings.timedTest = DEFAULT_SETTINGS.timedTest;
+
+  (['remapKeys', 'showFingerGuide', 'autoIndent', 'blindMode', 'allowBackspace'] as const).forEach(key => {
+    if (typeof settings[key] !== 'boolean') settings[key] = DEFAULT_SETTINGS[key];
+  });
+  (['playerName', 'raceServerUrl'] as const).forEach(key => {
+    if (typeof settings[key] !== 'string') settings[key] = DEFAULT_SETTINGS[key];
+  });
+
+  if (!Number.isInteger(settings.tabWidth) || settings.tabWidth < 1 || settings.tabWidth > MAX_TAB_WIDTH) {
+    settings.tabWidth = DEFAULT_SETTINGS.tabWidth;
+  }
+  const opponents = Array.isArray(settings.racerOpponents)
+    ? settings.racerOpponents.filter(id => RACER_PROFILES.some(p => p.id === id))
+    : [];
+  settings.racerOpponents = opponents.length ? opponents : DEFAULT_SETTINGS.racerOpponents;
+
+  const rules = isRecord(settings.textRules) ? settings.textRules : {};
+  settings.textRules = Object.fromEntries(
+    Object.entries(DEFAULT_TEXT_RULES).map(([id, on]) => [id, typeof rules[id] === 'boolean' ? rules[id] : on])
+  ) as AppSettings['textRules'];
+  settings.aiRequestsPerMinute = Number.isInteger(settings.aiRequestsPerMinute)
+    ? Math.min(AI_REQUESTS_PER_MINUTE.max, Math.max(AI_REQUESTS_PER_MINUTE.min, settings.aiRequestsPerMinute))
+    : DEFAULT_SETTINGS.aiRequestsPerMinute;
+  return settings;
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return normalizeSettings(stored ? JSON.parse(stored) : {});
+  } catch (error) {
+    console.error("Failed to load settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save settings:", error);
+  }
+};
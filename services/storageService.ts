@@ -0,0 +1,90 @@
+import { HistoryData, LessonProgress, SessionRecord, ShiftStats } from '../types';
+
+const STORAGE_KEY = 'typeneon:history';
+export const SCHEMA_VERSION = 4;
+
+const emptyHistory = (): HistoryData => ({
+  version: SCHEMA_VERSION,
+  sessions: [],
+  keyStats: {},
+  lessonProgress: {},
+  fingerStats: {},
+  shiftStats: { total: 0, oppositeHand: 0 },
+  ngramStats: {},
+});
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// Bring older payloads up to the current schema. Unknown future versions are discarded
+// rather than guessed at, so a downgrade never corrupts newer data silently.
+// v1 -> v2: added per-lesson curriculum progress
+// v2 -> v3: added per-finger and Shift usage stats
+// v3 -> v4: added bigram/trigram stats
+export const migrateHistory = (raw: any): HistoryData => {
+  if (!isObject(raw)) return emptyHistory();
+  const version = typeof raw.version === 'number' ? raw.version : 0;
+  if (version > SCHEMA_VERSION) return emptyHistory();
+
+  return {
+    version: SCHEMA_VERSION,
+    sessions: Array.isArray(raw.sessions) ? raw.sessions : [],
+    keyStats: isObject(raw.keyStats) ? raw.keyStats : {},
+    lessonProgress: version >= 2 && isObject(raw.lessonProgress) ? raw.lessonProgress : {},
+    fingerStats: version >= 3 && isObject(raw.fingerStats) ? raw.fingerStats : {},
+    shiftStats: version >= 3 && isObject(raw.shiftStats) ? raw.shiftStats as ShiftStats : { total: 0, oppositeHand: 0 },
+    ngramStats: version >= 4 && isObject(raw.ngramStats) ? raw.ngramStats : {},
+  };
+};
+
+export const loadHistory = (): HistoryData => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? migrateHistory(JSON.parse(stored)) : emptyHistory();
+  } catch (error) {
+    console.error("Failed to load history:", error);
+    return emptyHistory();
+  }
+};
+
+const saveHistory = (data: HistoryData) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error("Failed to save history:", error);
+  }
+};
+
+export const appendSession = (record: Omit<SessionRecord, 'id' | 'timestamp'>): SessionRecord[] => {
+  const data = loadHistory();
+  const timestamp = Date.now();
+  const session: SessionRecord = {
+    ...record,
+    id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp,
+  };
+  data.sessions.push(session);
+  saveHistory(data);
+  return data.sessions;
+};
+
+export type TypingStats = Pick<HistoryData, 'keyStats' | 'fingerStats' | 'shiftStats' | 'ngramStats'>;
+
+export const saveTypingStats = (stats: TypingStats) => {
+  saveHistory({ ...loadHistory(), ...stats });
+};
+
+export const saveLessonProgress = (progress: LessonProgress): Record<string, LessonProgress> => {
+  const data = loadHistory();
+  data.lessonProgress = { ...data.lessonProgress, [progress.lessonId]: progress };
+  saveHistory(data);
+  return data.lessonProgress;
+};
+
+export const replaceHistory = (data: HistoryData) => {
+  saveHistory({ ...data, version: SCHEMA_VERSION });
+};
+
+export const clearHistory = () => {
+  saveHistory(emptyHistory());
+};
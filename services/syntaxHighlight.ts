@@ -0,0 +1,64 @@
+import { CodeLanguage, TokenKind } from '../types';
+
+const KEYWORDS: Record<CodeLanguage, string[]> = {
+  typescript: ['as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'else', 'export', 'extends', 'false', 'for', 'from', 'function', 'if', 'implements', 'import', 'in', 'interface', 'let', 'new', 'null', 'of', 'private', 'public', 'readonly', 'return', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'while'],
+  javascript: ['async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'else', 'export', 'extends', 'false', 'for', 'from', 'function', 'if', 'import', 'in', 'let', 'new', 'null', 'of', 'return', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'while'],
+  python: ['and', 'as', 'class', 'def', 'elif', 'else', 'False', 'for', 'from', 'if', 'import', 'in', 'is', 'lambda', 'None', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while', 'with', 'yield'],
+  go: ['break', 'case', 'chan', 'const', 'continue', 'defer', 'else', 'false', 'for', 'func', 'go', 'if', 'import', 'interface', 'map', 'nil', 'package', 'range', 'return', 'select', 'struct', 'switch', 'true', 'type', 'var'],
+  rust: ['as', 'enum', 'else', 'false', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'mut', 'pub', 'return', 'Self', 'self', 'struct', 'trait', 'true', 'use', 'where', 'while'],
+  c: ['break', 'case', 'char', 'const', 'continue', 'double', 'else', 'float', 'for', 'if', 'int', 'long', 'return', 'size_t', 'sizeof', 'static', 'struct', 'switch', 'typedef', 'unsigned', 'void', 'while'],
+};
+
+const LINE_COMMENT: Record<CodeLanguage, string> = {
+  typescript: '//', javascript: '//', python: '#', go: '//', rust: '//', c: '//',
+};
+
+// Ordered alternatives; the first that matches at the scan position wins
+const tokenPatterns = (language: CodeLanguage): [TokenKind, RegExp][] => {
+  const comment = LINE_COMMENT[language] === '#' ? '#[^\\n]*' : '\\/\\/[^\\n]*|\\/\\*[\\s\\S]*?(?:\\*\\/|$)';
+  const strings = language === 'python'
+    ? '"""[\\s\\S]*?(?:"""|$)|[rbf]?"(?:\\\\.|[^"\\\\\\n])*"?|[rbf]?\'(?:\\\\.|[^\'\\\\\\n])*\'?'
+    : language === 'rust'
+      ? '"(?:\\\\.|[^"\\\\])*"?|\'(?:\\\\.|[^\'\\\\\\n])\''
+      : '"(?:\\\\.|[^"\\\\\\n])*"?|\'(?:\\\\.|[^\'\\\\\\n])*\'?|`(?:\\\\.|[^`\\\\])*`?';
+  return [
+    ['comment', new RegExp(comment, 'y')],
+    ['string', new RegExp(strings, 'y')],
+    ['number', /\b\d[\d_]*(?:\.\d+)?\b/y],
+    ['plain', /[A-Za-z_$][\w$]*/y],
+    ['punctuation', /[{}()[\];,.<>=+\-*/%!&|^~?:#@]/y],
+  ];
+};
+
+// One token kind per character of `code`, so a renderer can colour by index
+export const highlightCode = (code: string, language: CodeLanguage): TokenKind[] => {
+  const kinds: TokenKind[] = new Array(code.length).fill('plain');
+  const keywords = new Set(KEYWORDS[language]);
+  const patterns = tokenPatterns(language);
+  let pos = 0;
+
+  while (pos < code.length) {
+    let matched = false;
+    for (const [kind, pattern] of patterns) {
+      pattern.lastIndex = pos;
+      const match = pattern.exec(code);
+      if (!match || match[0].length === 0) continue;
+      const tokenKind = kind === 'plain' && keywords.has(match[0]) ? 'keyword' : kind;
+      kinds.fill(tokenKind, pos, pos + match[0].length);
+      pos += match[0].length;
+      matched = true;
+      break;
+    }
+    if (!matched) pos++;
+  }
+  return kinds;
+};
+
+export const TOKEN_COLORS: Record<TokenKind, string> = {
+  plain: 'text-slate-700 dark:text-slate-200',
+  keyword: 'text-neon-purple',
+  string: 'text-neon-green',
+  number: 'text-neon-pink',
+  comment: 'text-slate-400 dark:text-slate-500 italic',
+  punctuation: 'text-neon-blue',
+};
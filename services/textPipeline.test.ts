@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { LayoutId, TextRuleId } from '../types';
+import { getLayout } from './keyboardLayouts';
+import { cleanWords, DEFAULT_TEXT_RULES, normalizeText, stripMarkdown, TextContext, validateText } from './textPipeline';
+
+const ALL_OFF = Object.fromEntries(Object.keys(DEFAULT_TEXT_RULES).map(id => [id, false])) as Record<TextRuleId, boolean>;
+const only = (id: TextRuleId) => ({ ...ALL_OFF, [id]: true });
+const without = (id: TextRuleId) => ({ ...DEFAULT_TEXT_RULES, [id]: false });
+
+const generated: TextContext = { source: 'generated', layout: getLayout('qwerty'), difficulty: 'Intermediate' };
+const imported: TextContext = { source: 'imported', layout: getLayout('qwerty') };
+const code: TextContext = { source: 'code', layout: getLayout('qwerty') };
+
+describe('normalize rules', () => {
+  it('spaces: plain spaces, no invisible characters', () => {
+    expect(normalizeText('a\u00a0b\u200bc\u3000d', only('spaces'), generated)).toBe('a bc d');
+    expect(normalizeText('a\u00a0b\u200bc', ALL_OFF, generated)).toBe('a\u00a0b\u200bc');
+  });
+
+  it('quotes: curly quotes fold to straight ones', () => {
+    expect(normalizeText('\u201chi\u201d, it\u2019s \u00abfine\u00bb', only('quotes'), generated)).toBe('"hi", it\'s "fine"');
+    expect(normalizeText('it\u2019s', ALL_OFF, generated)).toBe('it\u2019s');
+  });
+
+  it('dashes: dashes and minus signs fold to hyphens', () => {
+    expect(normalizeText('a \u2013 b \u2014 c \u2212 d', only('dashes'), generated)).toBe('a - b - c - d');
+    expect(normalizeText('a \u2014 b', ALL_OFF, generated)).toBe('a \u2014 b');
+  });
+
+  it('ellipsis: folds to three dots', () => {
+    expect(normalizeText('wait\u2026', only('ellipsis'), generated)).toBe('wait...');
+    expect(normalizeText('wait\u2026', ALL_OFF, generated)).toBe('wait\u2026');
+  });
+
+  it('markdown: stripped from generated text only', () => {
+    expect(normalizeText('## Intro\n**bold** text', only('markdown'), generated)).toBe('Intro\nbold text');
+    expect(normalizeText('**bold** text', only('markdown'), imported)).toBe('**bold** text');
+    expect(normalizeText('**bold** text', ALL_OFF, generated)).toBe('**bold** text');
+  });
+
+  it('accents: dropped only where the layout lacks them', () => {
+    expect(normalizeText('caf\u00e9 nai\u0308ve', only('accents'), generated)).toBe('cafe naive');
+    expect(normalizeText('caf\u00e9', only('accents'), { ...generated, layout: getLayout('azerty') })).toBe('caf\u00e9');
+    expect(normalizeText('cafe\u0301', only('accents'), { ...generated, layout: getLayout('azerty') })).toBe('caf\u00e9');
+    expect(normalizeText('caf\u00e9', ALL_OFF, generated)).toBe('caf\u00e9');
+  });
+
+  it('untypeable: folded to typeable equivalents in imported text and code, never removed', () => {
+    expect(normalizeText('\ufb01ne \u00bd 3\u00d74 \u2192 \u2122', only('untypeable'), imported)).toBe('fine 1/2 3x4 -> TM');
+    expect(normalizeText('snow\u2603man', only('untypeable'), imported)).toBe('snow\u2603man');
+    expect(normalizeText('a\u00d7\nb', only('untypeable'), code)).toBe('ax\nb');
+    expect(normalizeText('3\u00d74', only('untypeable'), generated)).toBe('3\u00d74');
+    expect(normalizeText('snow\u2603man', ALL_OFF, imported)).toBe('snow\u2603man');
+  });
+
+  it('untypeable: keeps code and prose intact on layouts without ASCII punctuation keys', () => {
+    const snippet = 'export function debounce<T extends (...args: any[]) => void>(fn: T, wait = 200) {\n  let timer: ReturnType<typeof setTimeout> | undefined;\n}';
+    ['qwertz', 'azerty', 'spanish', 'jcuken', 'greek'].forEach(id => {
+      const context: TextContext = { ...code, layout: getLayout(id as LayoutId) };
+      expect(normalizeText(snippet, DEFAULT_TEXT_RULES, context)).toBe(snippet);
+    });
+    const prose = 'Email me at a@b.com [see] <tag>';
+    expect(normalizeText(prose, DEFAULT_TEXT_RULES, { ...imported, layout: getLayout('qwertz') })).toBe(prose);
+    expect(normalizeText(prose, DEFAULT_TEXT_RULES, { ...imported, layout: getLayout('jcuken') })).toBe(prose);
+  });
+
+  it('whitespace: collapsed in prose, kept in code', () => {
+    expect(normalizeText('  a \n\n b\t c  ', only('whitespace'), generated)).toBe('a b c');
+    expect(normalizeText('if (a) {\n  b;\n}', only('whitespace'), code)).toBe('if (a) {\n  b;\n}');
+    expect(normalizeText('  a  b ', ALL_OFF, generated)).toBe('  a  b ');
+  });
+
+  it('runs every enabled rule for the source', () => {
+    expect(normalizeText('## It\u2019s \u201cfine\u201d \u2014 **really**\u2026', DEFAULT_TEXT_RULES, generated))
+      .toBe('It\'s "fine" - really...');
+  });
+});
+
+describe('validation rules', () => {
+  const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+  it('length: word counts must fit the difficulty', () => {
+    const check = (count: number, difficulty: string) =>
+      validateText(words(count), only('length'), { ...generated, difficulty });
+    expect(check(9, 'Beginner')).toEqual(['only 9 words, at least 10 expected']);
+    expect(check(10, 'Beginner')).toEqual([]);
+    expect(check(81, 'Beginner')).toEqual(['81 words, at most 80 expected']);
+    expect(check(14, 'Intermediate')).toHaveLength(1);
+    expect(check(120, 'Intermediate')).toEqual([]);
+    expect(check(19, 'Advanced')).toHaveLength(1);
+    expect(check(160, 'Advanced')).toEqual([]);
+    expect(check(161, 'Advanced')).toHaveLength(1);
+    expect(validateText(words(3), ALL_OFF, generated)).toEqual([]);
+    expect(validateText(words(3), only('length'), imported)).toEqual([]);
+  });
+
+  it('charset: only characters the layout can type', () => {
+    const russian = words(12).replace(/word/g, '\u0441\u043b\u043e\u0432\u043e');
+    expect(validateText(russian, only('charset'), generated)[0]).toMatch(/QWERTY layout cannot type/i);
+    expect(validateText(russian, only('charset'), { ...generated, layout: getLayout('jcuken') })).toEqual([]);
+    expect(validateText('\u00fcber alles', only('charset'), generated)).toHaveLength(1);
+    expect(validateText('\u00fcber alles', only('charset'), { ...generated, layout: getLayout('qwertz') })).toEqual([]);
+    expect(validateText('\u306d\u3053 \u3044\u306c\u3002', only('charset'), { ...generated, language: 'ja' })).toEqual([]);
+    expect(validateText(russian, ALL_OFF, generated)).toEqual([]);
+    expect(validateText(russian, without('charset'), { ...generated, difficulty: 'Beginner' })).toEqual([]);
+  });
+
+  it('reports an empty passage whatever the rules', () => {
+    expect(validateText('  ', ALL_OFF, generated)).toEqual(['the passage is empty']);
+  });
+});
+
+describe('cleanWords', () => {
+  it('cleans words and drops ones the layout cannot type', () => {
+    expect(cleanWords(['don\u2019t', '\u0441\u043b\u043e\u0432\u043e', 'two words', ' ', 'co\u2014op'], DEFAULT_TEXT_RULES, generated))
+      .toEqual(["don't", 'co-op']);
+  });
+
+  it('keeps words the layout and language can type', () => {
+    expect(cleanWords(['\u0441\u043b\u043e\u0432\u043e'], DEFAULT_TEXT_RULES, { ...generated, layout: getLayout('jcuken') }))
+      .toEqual(['\u0441\u043b\u043e\u0432\u043e']);
+  });
+});
+
+describe('stripMarkdown', () => {
+  it('removes emphasis, code spans and strikethrough', () => {
+    expect(stripMarkdown('**bold**, *it*, _em_, __strong__, ~~gone~~ and `code`'))
+      .toBe('bold, it, em, strong, gone and code');
+  });
+
+  it('leaves underscores and asterisks inside words alone', () => {
+    expect(stripMarkdown('use snake_case_name and 2*3*4 here')).toBe('use snake_case_name and 2*3*4 here');
+    expect(stripMarkdown('call __init__ on *my_var*')).toBe('call init on my_var');
+  });
+
+  it('drops headings, list markers, links and images', () => {
+    expect(stripMarkdown('# Title\n- [docs](http://x) and ![logo](a.png)')).toBe('Title\ndocs and logo');
+  });
+});
@@ -0,0 +1,191 @@
+import { Difficulty, KeyboardLayout, LanguageId, TextRuleId } from '../types';
+import { locateChar } from './keyboardLayouts';
+import { getLanguagePack } from './languagePacks';
+
+// Where a passage came from decides which rules apply: generated prose can be thrown away
+// and asked for again, imported documents and code can only be cleaned up
+export type TextSource = 'generated' | 'imported' | 'code';
+
+export interface TextContext {
+  source: TextSource;
+  layout: KeyboardLayout;
+  difficulty?: string;
+  language?: LanguageId;
+}
+
+export interface TextRule {
+  id: TextRuleId;
+  label: string;
+  sources: TextSource[];
+}
+
+interface NormalizeRule extends TextRule {
+  apply: (text: string, context: TextContext) => string;
+}
+
+interface ValidationRule extends TextRule {
+  check: (text: string, context: TextContext) => string | null; // the problem, if any
+}
+
+const ALL_SOURCES: TextSource[] = ['generated', 'imported', 'code'];
+
+// Generated passages outside these word counts are regenerated
+export const LENGTH_LIMITS: Record<Difficulty, { min: number; max: number }> = {
+  Beginner: { min: 10, max: 80 },
+  Intermediate: { min: 15, max: 120 },
+  Advanced: { min: 20, max: 160 },
+};
+
+// Kana and other IME output has no key of its own; the language pack vouches for it instead
+export const canType = (char: string, { layout, source, language = 'en' }: TextContext) =>
+  char === ' ' ||
+  (char === '\n' && source === 'code') ||
+  locateChar(layout, char) !== null ||
+  Boolean(getLanguagePack(language).imeChars?.test(char));
+
+// Replaces matches only where the layout has no key for them, so a layout that can
+// type a character keeps it
+const foldUntypeable = (pattern: RegExp, replacement: string) =>
+  (text: string, context: TextContext) =>
+    text.replace(pattern, char => canType(char, context) ? char : replacement);
+
+// Typeable spellings of symbols that have no compatibility decomposition
+const SYMBOL_FOLDS: Record<string, string> = {
+  '•': '-', '×': 'x', '÷': '/', '→': '->', '←': '<-', '⇒': '=>', '≤': '<=', '≥': '>=', '≠': '!=',
+  '©': '(c)', '®': '(R)', '™': 'TM',
+};
+
+// A character the layout lacks becomes a typeable equivalent (ﬁ -> fi, ½ -> 1/2, × -> x)
+// when there is one. Otherwise it is kept: imported text and code are cleaned, never cut.
+const foldSymbol = (char: string, context: TextContext): string => {
+  if (char === '\n' || canType(char, context)) return char;
+  const folded = (SYMBOL_FOLDS[char] ?? char.normalize('NFKD').replace(/\p{M}/gu, '')).replace(/\u2044/g, '/');
+  return folded !== '' && Array.from(folded).every(c => canType(c, context)) ? folded : char;
+};
+
+export const stripMarkdown = (markdown: string): string =>
+  markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>+|[-*+]|\d+[.)])\s+/gm, '')
+    .replace(/^\s*([-*_]\s*){3,}$/gm, '')
+    .replace(/^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/gm, '')
+    .replace(/\|/g, ' ')
+    .replace(/(~~|`)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    // Emphasis markers touching a word character are part of it: snake_case, 2*3*4
+    .replace(/(?<![\w*])(\*\*|__|\*|_)(?=\S)([\s\S]*?\S)\1(?![\w*])/g, '$2');
+
+// Applied in this order; whitespace goes last since markdown stripping works on line starts
+export const NORMALIZE_RULES: NormalizeRule[] = [
+  {
+    id: 'spaces',
+    label: 'Plain spaces, no invisible characters',
+    sources: ALL_SOURCES,
+    apply: text => text.replace(/[\u00a0\u2000-\u200a\u202f\u205f\u3000]/g, ' ').replace(/[\u00ad\u200b-\u200d\u2060\ufeff]/g, ''),
+  },
+  {
+    id: 'quotes',
+    label: 'Straight quotes',
+    sources: ALL_SOURCES,
+    apply: (text, context) => foldUntypeable(/[“”„‟″«»]/g, '"')(foldUntypeable(/[‘’‚‛′‹›]/g, "'")(text, context), context),
+  },
+  {
+    id: 'dashes',
+    label: 'Dashes to hyphens',
+    sources: ALL_SOURCES,
+    apply: foldUntypeable(/[‐‑‒–—―−]/g, '-'),
+  },
+  {
+    id: 'ellipsis',
+    label: 'Ellipsis to three dots',
+    sources: ALL_SOURCES,
+    apply: foldUntypeable(/…/g, '...'),
+  },
+  {
+    id: 'markdown',
+    label: 'Strip markdown',
+    sources: ['generated'],
+    apply: stripMarkdown,
+  },
+  {
+    id: 'accents',
+    label: 'Drop accents the layout lacks',
+    sources: ALL_SOURCES,
+    apply: (text, context) =>
+      text.replace(/\p{L}\p{M}*/gu, letter => {
+        const composed = letter.normalize('NFC');
+        if (canType(composed, context)) return composed;
+        const base = letter.normalize('NFD').replace(/\p{M}/gu, '');
+        return canType(base, context) ? base : composed;
+      }),
+  },
+  {
+    id: 'untypeable',
+    label: 'Fold untypeable symbols',
+    sources: ['imported', 'code'],
+    apply: (text, context) => Array.from(text).map(char => foldSymbol(char, context)).join(''),
+  },
+  {
+    id: 'whitespace',
+    label: 'Collapse whitespace',
+    sources: ['generated', 'imported'],
+    apply: text => text.replace(/\s+/g, ' ').trim(),
+  },
+];
+
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: 'length',
+    label: 'Length fits the difficulty',
+    sources: ['generated'],
+    check: (text, { difficulty }) => {
+      const limits = LENGTH_LIMITS[difficulty as Difficulty] || LENGTH_LIMITS.Intermediate;
+      const words = text.split(/\s+/).filter(Boolean).length;
+      if (words < limits.min) return `only ${words} words, at least ${limits.min} expected`;
+      if (words > limits.max) return `${words} words, at most ${limits.max} expected`;
+      return null;
+    },
+  },
+  {
+    id: 'charset',
+    label: 'Only characters the layout can type',
+    sources: ['generated'],
+    check: (text, context) => {
+      const missing = Array.from(new Set(Array.from(text).filter(char => !canType(char, context))));
+      return missing.length > 0
+        ? `contains characters the ${context.layout.label} layout cannot type: ${missing.slice(0, 8).map(c => JSON.stringify(c)).join(' ')}`
+        : null;
+    },
+  },
+];
+
+export const TEXT_RULES: TextRule[] = [...NORMALIZE_RULES, ...VALIDATION_RULES];
+
+export const DEFAULT_TEXT_RULES = Object.fromEntries(TEXT_RULES.map(rule => [rule.id, true])) as Record<TextRuleId, boolean>;
+
+const applies = (rule: TextRule, enabled: Record<TextRuleId, boolean>, context: TextContext) =>
+  enabled[rule.id] !== false && rule.sources.includes(context.source);
+
+export const normalizeText = (raw: string, enabled: Record<TextRuleId, boolean>, context: TextContext): string =>
+  NORMALIZE_RULES
+    .filter(rule => applies(rule, enabled, context))
+    .reduce((text, rule) => rule.apply(text, context), raw);
+
+// Every problem found; empty means the passage can be typed as is. Run after normalizeText.
+export const validateText = (text: string, enabled: Record<TextRuleId, boolean>, context: TextContext): string[] => {
+  if (!text.trim()) return ['the passage is empty'];
+  return VALIDATION_RULES
+    .filter(rule => applies(rule, enabled, context))
+    .map(rule => rule.check(text, context))
+    .filter((problem): problem is string => problem !== null);
+};
+
+// Word lists (Neon Rain) go through the same cleanup as passages. A word that still holds
+// characters the layout cannot type, or came apart into several, is dropped; the length
+// rule is for passages and does not apply.
+export const cleanWords = (words: string[], enabled: Record<TextRuleId, boolean>, context: TextContext): string[] =>
+  words
+    .map(word => normalizeText(word, enabled, context).trim())
+    .filter(word => word !== '' && !/\s/.test(word) && validateText(word, { ...enabled, length: false }, context).length === 0);
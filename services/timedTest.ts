@@ -0,0 +1,30 @@
+import { LanguageId, SessionRecord, TimedTestConfig } from '../types';
+import { buildWordStream } from './localContentService';
+
+export const TIME_OPTIONS = [15, 30, 60, 120];
+export const WORD_OPTIONS = [10, 25, 50, 100];
+
+// How many words stay queued ahead of the caret in a time test
+const STREAM_LOOKAHEAD = 40;
+
+export const configKey = (config: TimedTestConfig) => `${config.kind}-${config.value}`;
+
+export const describeConfig = (config: TimedTestConfig) =>
+  config.kind === 'time' ? `${config.value} seconds` : `${config.value} words`;
+
+export const buildTestText = (config: TimedTestConfig, language: LanguageId = 'en'): string =>
+  buildWordStream(config.kind === 'words' ? config.value : STREAM_LOOKAHEAD * 2, Math.random, language).join(' ');
+
+// Keep a time test's text ahead of the caret so it never runs out before the timer
+export const extendStream = (text: string, caret: number, language: LanguageId = 'en'): string | null => {
+  const remainingWords = text.slice(caret).split(' ').length;
+  if (remainingWords > STREAM_LOOKAHEAD) return null;
+  return `${text} ${buildWordStream(STREAM_LOOKAHEAD, Math.random, language).join(' ')}`;
+};
+
+export const personalBestFor = (sessions: SessionRecord[], config: TimedTestConfig): SessionRecord | null => {
+  const key = configKey(config);
+  return sessions
+    .filter(s => s.testConfig === key)
+    .reduce<SessionRecord | null>((best, s) => (!best || s.stats.wpm > best.stats.wpm ? s : best), null);
+};
@@ -0,0 +1,58 @@
+// Bundled vocabulary for the offline content provider. Lists are grouped by part of
+// speech so the sentence templates can stay grammatical without a language model.
+
+export interface WordBank {
+  nouns: string[];
+  verbs: string[];
+  adjectives: string[];
+  adverbs: string[];
+}
+
+export const COMMON_WORDS = [
+  'the', 'be', 'to', 'of', 'and', 'a', 'in', 'that', 'have', 'it', 'for', 'not', 'on', 'with',
+  'he', 'as', 'you', 'do', 'at', 'this', 'but', 'his', 'by', 'from', 'they', 'we', 'say', 'her',
+  'she', 'or', 'an', 'will', 'my', 'one', 'all', 'would', 'there', 'their', 'what', 'so', 'up',
+  'out', 'if', 'about', 'who', 'get', 'which', 'go', 'me', 'when', 'make', 'can', 'like', 'time',
+  'no', 'just', 'him', 'know', 'take', 'people', 'into', 'year', 'your', 'good', 'some', 'could',
+  'them', 'see', 'other', 'than', 'then', 'now', 'look', 'only', 'come', 'its', 'over', 'think',
+  'also', 'back', 'after', 'use', 'two', 'how', 'our', 'work', 'first', 'well', 'way', 'even',
+  'new', 'want', 'because', 'any', 'these', 'give', 'day', 'most', 'us', 'glad', 'fall', 'sad',
+  'lad', 'ask', 'flask', 'salad', 'hall', 'dash', 'gash', 'lash', 'ash', 'has', 'had', 'alas',
+  'quiet', 'power', 'write', 'pretty', 'quite', 'type', 'route', 'tower', 'youth', 'zone',
+  'box', 'van', 'cab', 'man', 'ban', 'vex', 'mix', 'buzz', 'jazz', 'quiz', 'join', 'keep',
+];
+
+export const TOPIC_BANKS: Record<string, WordBank> = {
+  technology: {
+    nouns: ['server', 'network', 'compiler', 'keyboard', 'module', 'database', 'kernel', 'browser', 'pixel', 'signal', 'circuit', 'algorithm', 'cache', 'function', 'cloud', 'device', 'screen', 'robot', 'packet', 'sensor'],
+    verbs: ['compiles', 'routes', 'streams', 'renders', 'stores', 'deploys', 'parses', 'encrypts', 'scales', 'updates', 'boots', 'syncs', 'queries', 'loads', 'builds'],
+    adjectives: ['fast', 'modern', 'digital', 'secure', 'quiet', 'complex', 'remote', 'virtual', 'robust', 'tiny', 'quantum', 'binary', 'elegant', 'stable'],
+    adverbs: ['quickly', 'safely', 'silently', 'reliably', 'smoothly', 'eagerly', 'lazily'],
+  },
+  'science fiction': {
+    nouns: ['starship', 'galaxy', 'android', 'planet', 'comet', 'nebula', 'pilot', 'colony', 'reactor', 'portal', 'alien', 'orbit', 'asteroid', 'beacon', 'captain', 'moon', 'laser', 'outpost'],
+    verbs: ['drifts', 'warps', 'scans', 'orbits', 'lands', 'signals', 'explores', 'charts', 'glows', 'hovers', 'jumps', 'escapes', 'awakens'],
+    adjectives: ['distant', 'silent', 'glowing', 'strange', 'ancient', 'frozen', 'vast', 'hidden', 'golden', 'rogue', 'brave', 'dark', 'neon'],
+    adverbs: ['slowly', 'boldly', 'swiftly', 'quietly', 'suddenly', 'gently'],
+  },
+  'philosophy and nature': {
+    nouns: ['river', 'forest', 'mountain', 'mind', 'breath', 'stone', 'meadow', 'silence', 'truth', 'season', 'ocean', 'garden', 'thought', 'wind', 'valley', 'moment', 'leaf', 'path'],
+    verbs: ['flows', 'rests', 'grows', 'waits', 'wanders', 'changes', 'listens', 'breathes', 'returns', 'settles', 'unfolds', 'shelters', 'dreams'],
+    adjectives: ['calm', 'patient', 'green', 'deep', 'simple', 'gentle', 'wild', 'clear', 'old', 'humble', 'still', 'bright', 'quiet'],
+    adverbs: ['softly', 'patiently', 'freely', 'always', 'slowly', 'calmly'],
+  },
+  general: {
+    nouns: ['friend', 'house', 'city', 'book', 'window', 'story', 'street', 'morning', 'family', 'question', 'letter', 'market', 'music', 'dog', 'fox', 'table', 'journey', 'idea'],
+    verbs: ['jumps', 'walks', 'reads', 'writes', 'finds', 'builds', 'opens', 'carries', 'watches', 'follows', 'shares', 'fixes', 'visits'],
+    adjectives: ['quick', 'brown', 'lazy', 'happy', 'small', 'busy', 'warm', 'young', 'clever', 'lucky', 'kind', 'loud', 'fresh'],
+    adverbs: ['happily', 'carefully', 'often', 'early', 'rarely', 'quickly'],
+  },
+};
+
+export const GAME_WORDS = [
+  'space', 'galaxy', 'rocket', 'planet', 'star', 'comet', 'orbit', 'laser', 'alien', 'moon',
+  'neon', 'pixel', 'glitch', 'matrix', 'vector', 'photon', 'quasar', 'plasma', 'cyber', 'circuit',
+  'nova', 'drift', 'pulse', 'signal', 'beacon', 'vortex', 'zenith', 'ion', 'flux', 'prism',
+  'shadow', 'thunder', 'crystal', 'ember', 'falcon', 'jet', 'hyper', 'quantum', 'radar', 'sonic',
+  'turbo', 'warp', 'binary', 'kernel', 'cipher', 'echo', 'frost', 'blaze', 'spark', 'storm',
+];
@@ -0,0 +1,152 @@
+import { KeystrokeEvent, LanguageId, WordCard } from '../types';
+import { applyEvent, isDeletion } from './inputPolicy';
+import { buildWordStream } from './localContentService';
+import { dateKey, shiftDate } from './dailyChallenge';
+import { Random } from './random';
+
+const STORAGE_KEY = 'typeneon:words';
+// A word counts as slow when its keys came this much slower than the session average
+const SLOW_FACTOR = 1.6;
+const MIN_EASE = 1.3;
+const MAX_REVIEW_WORDS = 15;
+const FILLER_PER_WORD = [1, 3];
+
+export interface WordAttempt {
+  word: string;
+  errors: number;
+  slow: boolean;
+}
+
+// Lowercased and stripped of surrounding punctuation, so "Although," and "although" share a card
+export const normalizeWord = (raw: string) =>
+  raw.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+// Mistakes and pace for every word of the passage that was reached
+export const analyzeWords = (events: KeystrokeEvent[], text: string): WordAttempt[] => {
+  const words = Array.from(text.matchAll(/\S+/g)).map(m => ({
+    word: normalizeWord(m[0]),
+    start: m.index!,
+    end: m.index! + m[0].length,
+    errors: 0,
+    startedAt: null as number | null,
+    finishedAt: null as number | null,
+  }));
+  const wordAt: number[] = [];
+  words.forEach((w, i) => {
+    for (let c = w.start; c < w.end; c++) wordAt[c] = i;
+  });
+
+  let input = '';
+  let typedChars = 0;
+  events.forEach(event => {
+    const position = input.length;
+    const word = words[wordAt[position]];
+    if (!isDeletion(event) && word) {
+      if (!event.correct) word.errors++;
+      if (word.startedAt === null && position === word.start) word.startedAt = event.t;
+    }
+    input = applyEvent(input, event);
+    if (!isDeletion(event) && !event.rejected) typedChars++;
+    words.forEach(w => {
+      if (w.finishedAt === null && w.startedAt !== null && input.length >= w.end) w.finishedAt = event.t;
+    });
+  });
+
+  const lastT = events.length > 0 ? events[events.length - 1].t : 0;
+  const averageMsPerChar = typedChars > 1 ? lastT / (typedChars - 1) : 0;
+  return words
+    .filter(w => w.word.length >= 2 && w.startedAt !== null && w.finishedAt !== null)
+    .map(w => {
+      const msPerChar = (w.finishedAt! - w.startedAt!) / Math.max(1, w.end - w.start - 1);
+      return { word: w.word, errors: w.errors, slow: averageMsPerChar > 0 && msPerChar > averageMsPerChar * SLOW_FACTOR };
+    });
+};
+
+// SM-2 response quality: 5 clean, 3 slow, 2 one slip, 1 several slips
+const qualityOf = (attempt: WordAttempt) =>
+  attempt.errors >= 2 ? 1 : attempt.errors === 1 ? 2 : attempt.slow ? 3 : 5;
+
+const newCard = (word: string, today: string): WordCard => ({
+  word, seen: 0, errors: 0, slow: 0, ease: 2.5, interval: 0, repetitions: 0, due: today,
+});
+
+// Standard SM-2: a failed recall restarts the word at one day; a pass grows the interval by the ease factor
+export const scheduleCard = (card: WordCard, quality: number, today: string): WordCard => {
+  const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  if (quality < 3) return { ...card, ease, repetitions: 0, interval: 1, due: shiftDate(today, 1) };
+  const repetitions = card.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.interval * ease);
+  return { ...card, ease, repetitions, interval, due: shiftDate(today, interval) };
+};
+
+// Struggles add a word to the deck whenever they happen. A clean run only moves a word's
+// schedule on once it is due, so seeing it in unrelated text early does not count as a review.
+export const updateCards = (
+  cards: Record<string, WordCard>,
+  attempts: WordAttempt[],
+  today: string = dateKey()
+): Record<string, WordCard> => {
+  // Worst attempt per word decides its grade for the session
+  const worst = new Map<string, WordAttempt>();
+  attempts.forEach(a => {
+    const current = worst.get(a.word);
+    if (!current || qualityOf(a) < qualityOf(current)) worst.set(a.word, a);
+  });
+
+  const next = { ...cards };
+  worst.forEach(attempt => {
+    const quality = qualityOf(attempt);
+    const existing = next[attempt.word];
+    if (!existing && quality >= 5) return;
+    const card = existing || newCard(attempt.word, today);
+    const counted = {
+      ...card,
+      seen: card.seen + 1,
+      errors: card.errors + (attempt.errors > 0 ? 1 : 0),
+      slow: card.slow + (attempt.slow ? 1 : 0),
+    };
+    next[attempt.word] = quality < 5 || card.due <= today ? scheduleCard(counted, quality, today) : counted;
+  });
+  return next;
+};
+
+export const dueCards = (cards: Record<string, WordCard>, today: string = dateKey()) =>
+  Object.values(cards)
+    .filter(c => c.due <= today)
+    .sort((a, b) => a.due.localeCompare(b.due) || a.ease - b.ease);
+
+// The most overdue words, each appearing twice with a few common filler words after it
+export const buildReviewText = (due: WordCard[], random: Random = Math.random, language: LanguageId = 'en'): { text: string; words: string[] } => {
+  const words = due.slice(0, MAX_REVIEW_WORDS).map(c => c.word);
+  // Each word twice, Fisher-Yates shuffled
+  const order = [...words, ...words];
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const parts: string[] = [];
+  order.forEach(word => {
+    parts.push(word);
+    const filler = FILLER_PER_WORD[0] + Math.floor(random() * (FILLER_PER_WORD[1] - FILLER_PER_WORD[0] + 1));
+    parts.push(...buildWordStream(filler, random, language));
+  });
+  return { text: parts.join(' '), words };
+};
+
+export const loadWordCards = (): Record<string, WordCard> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Failed to load word cards:", error);
+    return {};
+  }
+};
+
+export const saveWordCards = (cards: Record<string, WordCard>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cards));
+  } catch (error) {
+    console.error("Failed to save word cards:", error);
+  }
+};
@@ -1,7 +1,15 @@
 export enum GameMode {
   LESSON = 'LESSON',
   ZEN = 'ZEN',
+  TIMED = 'TIMED',
+  CODE = 'CODE',
+  BOOK = 'BOOK',
   GAME_RAIN = 'GAME_RAIN',
+  GAME_RACER = 'GAME_RACER',
+  DAILY = 'DAILY',
+  REVIEW = 'REVIEW',
+  PROFILE = 'PROFILE',
+  MULTIPLAYER = 'MULTIPLAYER',
   ANALYTICS = 'ANALYTICS'
 }
 
@@ -11,12 +19,89 @@ export interface KeyStats {
   errors: number;
 }
 
+export type Hand = 'left' | 'right';
+
+export type Finger =
+  | 'left-pinky' | 'left-ring' | 'left-middle' | 'left-index'
+  | 'right-index' | 'right-middle' | 'right-ring' | 'right-pinky'
+  | 'thumb';
+
+export interface FingerStats {
+  finger: Finger;
+  total: number;
+  errors: number;
+  latencyTotal: number; // ms summed over strokes that had a preceding keystroke
+  latencySamples: number;
+}
+
+// Spaced-repetition state of a word the user has struggled with (SM-2)
+export interface WordCard {
+  word: string;
+  seen: number;
+  errors: number; // appearances with at least one mistake
+  slow: number; // appearances typed well below the session's pace
+  ease: number;
+  interval: number; // days
+  repetitions: number; // successful reviews in a row
+  due: string; // YYYY-MM-DD
+}
+
+export interface NgramStats {
+  ngram: string;
+  total: number;
+  errors: number;
+  latencyTotal: number; // ms from the n-gram's first key to its last
+}
+
+export interface ShiftStats {
+  total: number;
+  oppositeHand: number;
+}
+
 export interface TypingSessionStats {
   wpm: number;
   accuracy: number;
   timeElapsed: number;
   mistakes: number;
   charsTyped: number;
+  rawWpm?: number;
+  consistency?: number;
+}
+
+export interface SessionMetrics {
+  grossWpm: number; // every character typed, corrected or not
+  netWpm: number; // correct characters left on screen
+  rawCpm: number;
+  accuracy: number; // keystrokes, so corrected mistakes still count
+  finalAccuracy: number; // only mistakes left on screen
+  consistency: number; // 0-100, higher is a steadier pace
+  series: number[]; // WPM per second
+  durationMs: number;
+  charsTyped: number;
+  keystrokeErrors: number;
+  uncorrectedErrors: number;
+  corrections: number; // Backspace and word deletions
+}
+
+export interface TimedTestConfig {
+  kind: 'time' | 'words';
+  value: number; // seconds or word count
+}
+
+export type CodeLanguage = 'typescript' | 'javascript' | 'python' | 'go' | 'rust' | 'c';
+
+export interface CodeSnippet {
+  id: string;
+  language: CodeLanguage;
+  title: string;
+  code: string;
+}
+
+export type TokenKind = 'plain' | 'keyword' | 'string' | 'number' | 'comment' | 'punctuation';
+
+export interface PassCriteria {
+  minWpm: number;
+  minAccuracy: number;
 }
 
 export interface LessonConfig {
@@ -25,15 +110,230 @@ export interface LessonConfig {
   text: string;
   difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
   focusKeys?: string[];
+  allowedKeys?: string[];
+  unit?: string;
+  passCriteria?: PassCriteria;
+}
+
+export interface LessonProgress {
+  lessonId: string;
+  attempts: number;
+  bestWpm: number;
+  bestAccuracy: number;
+  passed: boolean;
 }
 
 export interface WordEntity {
   id: number;
   text: string;
-  x: number;
-  y: number;
-  speed: number;
+  x: number; // % of field width
+  y: number; // % of field height
+  speed: number; // % of field height per second
   typed: string;
+  powerUp?: PowerUp;
+}
+
+export type PowerUp = 'slow' | 'clear' | 'life';
+
+export interface BookMeta {
+  id: string;
+  title: string;
+  chunkCount: number;
+  charCount: number;
+  bookmark: number; // index of the next chunk to type; chunkCount once finished
+  addedAt: number;
+  lastReadAt: number;
+}
+
+// Grade of each tenth of a daily passage: clean, corrected mistakes, mistakes left in
+export type SegmentGrade = 'clean' | 'corrected' | 'missed';
+
+// The first attempt at each part of a day's challenge; later runs are practice
+export interface DailyResult {
+  date: string; // YYYY-MM-DD in local time
+  typing?: { wpm: number; accuracy: number; grades: SegmentGrade[] };
+  rain?: { score: number; level: number };
+}
+
+export interface PlayerProfile {
+  xp: number;
+  unlocked: Record<string, number>; // achievement id -> unlock timestamp
+}
+
+export interface RacerProfile {
+  id: string;
+  name: string;
+  wpm: number;
+  variance: number; // spread of per-word pace around the WPM
+  color: string;
+}
+
+// Wire format of the LAN race server (server/raceServer.js)
+export interface RoomPlayer {
+  id: string;
+  name: string;
+  color: string;
+  position: number; // characters typed, as last reported
+  wpm: number;
+  finished: boolean;
+}
+
+export interface RoomState {
+  code: string;
+  hostId: string;
+  status: 'lobby' | 'countdown' | 'racing' | 'finished';
+  players: RoomPlayer[];
+}
+
+export interface RaceResult {
+  id: string;
+  name: string;
+  color: string;
+  place: number;
+  wpm: number;
+  accuracy: number | null; // null for players who did not finish
+  timeMs: number | null;
 }
 
+export type ServerMessage =
+  | ({ type: 'room' } & RoomState)
+  | { type: 'welcome'; playerId: string; code: string }
+  | { type: 'countdown'; remaining: number; text: string }
+  | { type: 'start'; text: string }
+  | { type: 'results'; results: RaceResult[] }
+  | { type: 'error'; message: string };
+
 export type Theme = 'light' | 'dark';
+
+export interface SessionRecord {
+  id: string;
+  mode: GameMode;
+  timestamp: number;
+  stats: TypingSessionStats;
+  score?: number;
+  lessonId?: string;
+  testConfig?: string;
+  placement?: number; // finishing position in a race, 1 = first
+}
+
+export interface HistoryData {
+  version: number;
+  sessions: SessionRecord[];
+  keyStats: Record<string, KeyStats>;
+  lessonProgress: Record<string, LessonProgress>;
+  fingerStats: Record<string, FingerStats>;
+  shiftStats: ShiftStats;
+  ngramStats: Record<string, NgramStats>;
+}
+
+export type Difficulty = LessonConfig['difficulty'];
+
+export type ContentProviderId = 'gemini' | 'local';
+
+// Network-backed providers reject when a request fails; callers decide what to show instead
+export interface ContentProvider {
+  id: ContentProviderId;
+  label: string;
+  generateLessonContent: (focusKeys: string[], difficulty: string, topic?: string, focusNgrams?: string[], language?: LanguageId) => Promise<string>;
+  // Warms the cache so the next identical generateLessonContent call answers at once
+  prefetchLessonContent?: (focusKeys: string[], difficulty: string, topic?: string, focusNgrams?: string[], language?: LanguageId) => void;
+  generateGameWords: (count?: number, language?: LanguageId) => Promise<string[]>;
+  generateCoachReport: (input: CoachInput) => Promise<CoachReport>;
+}
+
+// What the coach gets to see: the session's numbers and the weakest spots in the stats
+export interface CoachInput {
+  wpm: number;
+  accuracy: number;
+  consistency: number;
+  weakKeys: { key: string; errorRate: number; samples: number }[]; // errorRate 0-100
+  weakNgrams: { ngram: string; errorRate: number; msPerKey: number }[];
+  weakFingers: { finger: Finger; errorRate: number; msPerKey: number }[];
+}
+
+export type WeaknessKind = 'key' | 'ngram' | 'finger' | 'accuracy' | 'speed' | 'rhythm';
+
+export interface CoachWeakness {
+  kind: WeaknessKind;
+  target: string; // the key, n-gram or finger, or a short label for the other kinds
+  reason: string;
+}
+
+export interface CoachDrill {
+  title: string;
+  goal: string;
+  focusKeys: string[];
+  focusNgrams: string[];
+  text: string;
+}
+
+export interface CoachReport {
+  diagnosis: string;
+  weaknesses: CoachWeakness[]; // most important first
+  drills: CoachDrill[];
+  source: ContentProviderId;
+}
+
+export interface KeystrokeEvent {
+  t: number; // ms since the first keystroke
+  key: string; // typed character (plus any auto-filled indentation), 'Backspace' or 'WordBackspace'
+  expected: string; // character the text expected at the caret ('' for deletions)
+  correct: boolean;
+  rejected?: boolean; // blocked by the error policy, so it never reached the screen
+}
+
+export type ErrorPolicy = 'free' | 'stop-on-error' | 'stop-on-word';
+
+export interface SessionReplay {
+  sessionId?: string;
+  mode: GameMode;
+  text: string;
+  startedAt: number;
+  events: KeystrokeEvent[];
+}
+
+export type LayoutId = 'qwerty' | 'dvorak' | 'colemak' | 'workman' | 'azerty' | 'qwertz' | 'spanish' | 'jcuken' | 'greek';
+
+export interface KeyboardLayout {
+  id: LayoutId;
+  label: string;
+  rows: string[]; // unshifted characters per physical row, number row first
+  shiftRows: string[];
+  altGrRows?: string[]; // characters typed with AltGr, per row; a space marks a key with none
+  intlBackslash?: string; // ISO key left of Z: its unshifted, shifted and AltGr characters
+  deadKeyChars?: string; // letters typed as a dead key followed by a base letter, with no key of their own
+}
+
+export type LanguageId = 'en' | 'es' | 'de' | 'fr' | 'ru' | 'el' | 'ja';
+
+export interface KeyLocation {
+  row: number;
+  index: number;
+  code: string;
+  shift: boolean;
+  altGr: boolean;
+}
+
+// Cleanup and validation steps every incoming passage goes through (see textPipeline)
+export type TextRuleId =
+  | 'spaces' | 'quotes' | 'dashes' | 'ellipsis' | 'markdown' | 'accents' | 'untypeable' | 'whitespace'
+  | 'length' | 'charset';
+
+export interface AppSettings {
+  layoutId: LayoutId;
+  remapKeys: boolean;
+  showFingerGuide: boolean;
+  timedTest: TimedTestConfig;
+  codeLanguage: CodeLanguage;
+  autoIndent: boolean; // Enter also fills the next line's leading indentation
+  tabWidth: number;
+  errorPolicy: ErrorPolicy;
+  blindMode: boolean; // correctness stays hidden until the session ends
+  allowBackspace: boolean;
+  racerOpponents: string[]; // RacerProfile ids, one per opponent car
+  playerName: string;
+  raceServerUrl: string; // '' connects to the race server on the host serving the app
+  aiRequestsPerMinute: number; // Gemini calls allowed in any rolling minute, retries included
+  textRules: Record<TextRuleId, boolean>;
+  language: LanguageId; // language of generated lessons, word streams and game words
+}